@@ -0,0 +1,64 @@
+/**
+ * LocationPicker Component
+ * Lets the user choose between several places matching an ambiguous location
+ * (e.g. "Springfield") before the venue search starts
+ */
+
+import type { LocationSuggestion } from '@/lib/nominatim';
+
+interface LocationPickerProps {
+  /** The location text the user entered */
+  query: string;
+  /** Matching places, best first */
+  candidates: LocationSuggestion[];
+  onSelect: (candidate: LocationSuggestion) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Splits a Nominatim display name into a headline and the rest
+ * @example splitDisplayName('Springfield, Sangamon County, Illinois, United States'); // ["Springfield", "Sangamon County, Illinois, United States"]
+ */
+function splitDisplayName(displayName: string): [string, string] {
+  const [name, ...rest] = displayName.split(', ');
+  return [name, rest.join(', ')];
+}
+
+export default function LocationPicker({ query, candidates, onSelect, onCancel }: LocationPickerProps) {
+  return (
+    <div className="mx-6 mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800">
+      <p className="font-semibold text-amber-800 dark:text-amber-300">
+        Which &ldquo;{query}&rdquo; did you mean?
+      </p>
+      <p className="text-sm text-amber-700/80 dark:text-amber-400/80 mt-1 mb-3">
+        Several places match. Pick one to start the search.
+      </p>
+      <ul className="space-y-2">
+        {candidates.map((candidate) => {
+          const [name, details] = splitDisplayName(candidate.displayName);
+          return (
+            <li key={`${candidate.lat},${candidate.lng}`}>
+              <button
+                type="button"
+                onClick={() => onSelect(candidate)}
+                className="w-full text-left px-4 py-3 rounded-xl bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-700 hover:border-teal-400 dark:hover:border-teal-600 hover:bg-teal-50 dark:hover:bg-teal-900/20 transition-colors"
+              >
+                <span className="block text-sm font-semibold text-stone-800 dark:text-stone-200">{name}</span>
+                {details && (
+                  <span className="block text-xs text-stone-500 dark:text-stone-400 truncate">{details}</span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="mt-3 text-sm font-medium text-stone-500 hover:text-stone-700 dark:hover:text-stone-300"
+      >
+        None of these - edit my location
+      </button>
+    </div>
+  );
+}
@@ -3,8 +3,34 @@
  * User input form for event planning with refined editorial design
  */
 
-import { useState } from 'react';
-import type { UserPreferences } from '@/types/user-preferences';
+import { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
+import type { UserPreferences, DistanceUnits } from '@/types/user-preferences';
+import type { LocationSuggestion } from '@/lib/nominatim';
+import {
+  DEFAULT_LOCALE,
+  LANGUAGE_OPTIONS,
+  COUNTRY_OPTIONS,
+  RADIUS_RANGE,
+  MIN_SUGGEST_QUERY_LENGTH,
+  getCurrencySymbol,
+  getDefaultUnits,
+  radiusToMeters,
+  convertRadius,
+} from '@/lib/locale';
+
+/**
+ * Delay after the last keystroke before fetching location suggestions
+ * (Nominatim allows 1 request per second across all users of the server)
+ */
+const SUGGEST_DEBOUNCE_MS = 400;
+
+const DURATION_OPTIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '2 hours', minutes: 120 },
+  { label: '3 hours', minutes: 180 },
+  { label: '4+ hours', minutes: 240 },
+];
 
 const OCCASION_PRESETS = [
   { label: 'Date Night', icon: '💕' },
@@ -25,18 +51,153 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
   const [budget, setBudget] = useState<'low' | 'medium' | 'high' | 'any'>('any');
   const [radius, setRadius] = useState(5);
   const [groupSize, setGroupSize] = useState<number | ''>('');
+  const [plannedDate, setPlannedDate] = useState('');
+  const [plannedTime, setPlannedTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(120);
   const [atmosphere, setAtmosphere] = useState('');
   const [dietaryRestrictions, setDietaryRestrictions] = useState('');
+  const [preferIndependent, setPreferIndependent] = useState(false);
+  const [language, setLanguage] = useState(DEFAULT_LOCALE.language);
+  const [countryCode, setCountryCode] = useState('');
+  const [units, setUnits] = useState<DistanceUnits>(DEFAULT_LOCALE.units);
   const [additionalPreferences, setAdditionalPreferences] = useState('');
   const [showOptionalFields, setShowOptionalFields] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
+  // Location typeahead state
+  const [suggestions, setSuggestions] = useState<LocationSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const skipNextLookup = useRef(false);
+
+  // Browser geolocation ("Use my current location")
+  const [coordinates, setCoordinates] = useState<{ lat: number; lng: number } | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  // Fetch suggestions once the user pauses typing
+  useEffect(() => {
+    if (skipNextLookup.current) {
+      skipNextLookup.current = false;
+      return;
+    }
+
+    const query = location.trim();
+    if (query.length < MIN_SUGGEST_QUERY_LENGTH) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await axios.post<{ suggestions: LocationSuggestion[] }>('/api/geocode/suggest', {
+          query,
+          language,
+          countryCode: countryCode || undefined,
+        });
+        if (!cancelled) {
+          setSuggestions(res.data.suggestions);
+          setActiveSuggestion(-1);
+        }
+      } catch {
+        // Suggestions are optional; free text still works
+        if (!cancelled) setSuggestions([]);
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [location, language, countryCode]);
+
+  // Stale suggestions stay in state but are hidden once the query gets too short
+  const suggestionsOpen =
+    showSuggestions && suggestions.length > 0 && location.trim().length >= MIN_SUGGEST_QUERY_LENGTH;
+
+  const radiusRange = RADIUS_RANGE[units];
+  const currencySymbol = getCurrencySymbol(countryCode);
+
+  const changeUnits = (next: DistanceUnits) => {
+    setRadius((r) => convertRadius(r, units, next));
+    setUnits(next);
+  };
+
+  // Picking a country also switches to the units used there
+  const changeCountry = (next: string) => {
+    setCountryCode(next);
+    if (next) changeUnits(getDefaultUnits(next));
+  };
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setErrors((prev) => ({ ...prev, location: 'Your browser does not support location access' }));
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const coords = { lat: position.coords.latitude, lng: position.coords.longitude };
+        let label = `${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}`;
+        try {
+          const res = await axios.post<{ displayName: string }>('/api/reverse-geocode', { ...coords, language });
+          label = res.data.displayName;
+        } catch {
+          // Coordinates are what the search needs; the name is only a label
+        }
+
+        skipNextLookup.current = true;
+        setLocation(label);
+        setCoordinates(coords);
+        setSuggestions([]);
+        setErrors((prev) => ({ ...prev, location: '' }));
+        setLocating(false);
+      },
+      (error) => {
+        setErrors((prev) => ({
+          ...prev,
+          location: error.code === error.PERMISSION_DENIED
+            ? 'Location access was denied. Please type your location instead.'
+            : 'Could not get your current location. Please type it instead.',
+        }));
+        setLocating(false);
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const selectSuggestion = (suggestion: LocationSuggestion) => {
+    skipNextLookup.current = true;
+    setLocation(suggestion.displayName);
+    setCoordinates(null);
+    setSuggestions([]);
+    setShowSuggestions(false);
+  };
+
+  const handleLocationKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestionsOpen) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === 'Enter' && activeSuggestion >= 0) {
+      e.preventDefault();
+      selectSuggestion(suggestions[activeSuggestion]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
   const validateForm = (): boolean => {
     const newErrors: { [key: string]: string } = {};
     if (!location.trim()) newErrors.location = 'Location is required';
     if (!occasion.trim()) newErrors.occasion = 'Occasion is required';
-    if (radius < 1 || radius > 25) newErrors.radius = 'Radius must be between 1 and 25 miles';
+    if (radius < radiusRange.min || radius > radiusRange.max) {
+      newErrors.radius = `Radius must be between ${radiusRange.min} and ${radiusRange.max} ${radiusRange.label}`;
+    }
     if (groupSize !== '' && (groupSize < 1 || groupSize > 100)) newErrors.groupSize = 'Group size must be between 1 and 100';
+    if (!!plannedDate !== !!plannedTime) newErrors.plannedTime = 'Pick both a date and a time, or leave both empty';
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -52,12 +213,18 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
 
     const preferences: UserPreferences = {
       location: location.trim(),
+      coordinates: coordinates || undefined,
       occasion: occasion.trim(),
       budget,
-      radius: radius * 1609.34,
+      radius: radiusToMeters(radius, units),
       groupSize: groupSize === '' ? undefined : Number(groupSize),
+      plannedDate: plannedDate || undefined,
+      plannedTime: plannedTime || undefined,
+      durationMinutes: plannedDate && plannedTime ? durationMinutes : undefined,
       atmosphere: atmosphere.trim() || undefined,
       dietaryRestrictions: dietaryArray.length > 0 ? dietaryArray : undefined,
+      preferIndependent: preferIndependent || undefined,
+      locale: { language, countryCode: countryCode || undefined, units },
       additionalPreferences: additionalPreferences.trim() || undefined,
     };
 
@@ -97,11 +264,49 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
               type="text"
               id="location"
               value={location}
-              onChange={(e) => setLocation(e.target.value)}
+              onChange={(e) => {
+                setLocation(e.target.value);
+                // Typed text replaces the current location, so geocode it again
+                setCoordinates(null);
+                setShowSuggestions(true);
+              }}
+              onKeyDown={handleLocationKeyDown}
+              onFocus={() => setShowSuggestions(true)}
+              // Delay so a click on a suggestion lands before the list closes
+              onBlur={() => setTimeout(() => setShowSuggestions(false), 150)}
               placeholder="City, neighborhood, or ZIP"
               className={`${inputClasses(!!errors.location)} pl-12`}
               disabled={loading}
+              autoComplete="off"
+              role="combobox"
+              aria-expanded={suggestionsOpen}
+              aria-controls="location-suggestions"
+              aria-autocomplete="list"
             />
+            {suggestionsOpen && (
+              <ul
+                id="location-suggestions"
+                role="listbox"
+                className="absolute z-20 mt-2 w-full overflow-hidden rounded-xl border border-stone-200 dark:border-stone-700 bg-white dark:bg-stone-900 shadow-lg"
+              >
+                {suggestions.map((suggestion, index) => (
+                  <li
+                    key={`${suggestion.displayName}-${index}`}
+                    role="option"
+                    aria-selected={index === activeSuggestion}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => selectSuggestion(suggestion)}
+                    className={`px-4 py-2.5 text-sm cursor-pointer truncate
+                      ${index === activeSuggestion
+                        ? 'bg-teal-50 dark:bg-teal-900/30 text-teal-800 dark:text-teal-300'
+                        : 'text-stone-700 dark:text-stone-300 hover:bg-stone-50 dark:hover:bg-stone-800'
+                      }`}
+                  >
+                    {suggestion.displayName}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           {errors.location && (
             <p className="mt-2 text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
@@ -111,6 +316,17 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
               {errors.location}
             </p>
           )}
+          <button
+            type="button"
+            onClick={handleUseCurrentLocation}
+            disabled={loading || locating}
+            className="mt-2 inline-flex items-center gap-1.5 text-sm font-medium text-teal-600 dark:text-teal-400 hover:text-teal-700 dark:hover:text-teal-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 2v3m0 14v3M2 12h3m14 0h3m-4 0a6 6 0 11-12 0 6 6 0 0112 0zm-4 0a2 2 0 11-4 0 2 2 0 014 0z" />
+            </svg>
+            {locating ? 'Finding your location...' : 'Use my current location'}
+          </button>
         </div>
 
         {/* Occasion */}
@@ -166,7 +382,12 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
         <div className="grid grid-cols-4 gap-2 p-1.5 rounded-xl bg-stone-100 dark:bg-stone-800">
           {(['low', 'medium', 'high', 'any'] as const).map((level) => {
             const isSelected = budget === level;
-            const labels = { low: '$', medium: '$$', high: '$$$', any: 'Any' };
+            const labels = {
+              low: currencySymbol,
+              medium: currencySymbol.repeat(2),
+              high: currencySymbol.repeat(3),
+              any: 'Any',
+            };
             const descriptions = { low: 'Budget', medium: 'Moderate', high: 'Upscale', any: 'Flexible' };
 
             return (
@@ -205,15 +426,15 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
             Search Radius
           </label>
           <span className="text-sm font-bold text-teal-600 dark:text-teal-400 bg-teal-50 dark:bg-teal-900/30 px-3 py-1 rounded-full">
-            {radius} miles
+            {radius} {radiusRange.label}
           </span>
         </div>
         <div className="relative pt-2">
           <input
             type="range"
             id="radius"
-            min="1"
-            max="25"
+            min={radiusRange.min}
+            max={radiusRange.max}
             step="1"
             value={radius}
             onChange={(e) => setRadius(Number(e.target.value))}
@@ -230,12 +451,12 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
           {/* Track fill */}
           <div
             className="absolute top-2 left-0 h-2 bg-teal-500 rounded-full pointer-events-none"
-            style={{ width: `${((radius - 1) / 24) * 100}%` }}
+            style={{ width: `${((radius - radiusRange.min) / (radiusRange.max - radiusRange.min)) * 100}%` }}
           />
         </div>
         {/* Tick marks */}
         <div className="flex justify-between mt-2 px-1">
-          {[1, 5, 10, 15, 20, 25].map((tick) => (
+          {radiusRange.ticks.map((tick) => (
             <span key={tick} className={`text-xs ${radius === tick ? 'text-teal-600 dark:text-teal-400 font-bold' : 'text-stone-400'}`}>
               {tick}
             </span>
@@ -283,6 +504,61 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
 
         {showOptionalFields && (
           <div className="mt-6 space-y-6 animate-fade-in-up">
+            {/* Planned Date & Time */}
+            <div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label htmlFor="plannedDate" className="block text-sm font-semibold text-stone-700 dark:text-stone-300 mb-2">
+                    Date
+                  </label>
+                  <input
+                    type="date"
+                    id="plannedDate"
+                    value={plannedDate}
+                    onChange={(e) => setPlannedDate(e.target.value)}
+                    className={inputClasses(!!errors.plannedTime)}
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="plannedTime" className="block text-sm font-semibold text-stone-700 dark:text-stone-300 mb-2">
+                    Time
+                  </label>
+                  <input
+                    type="time"
+                    id="plannedTime"
+                    value={plannedTime}
+                    onChange={(e) => setPlannedTime(e.target.value)}
+                    className={inputClasses(!!errors.plannedTime)}
+                    disabled={loading}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="durationMinutes" className="block text-sm font-semibold text-stone-700 dark:text-stone-300 mb-2">
+                    Duration
+                  </label>
+                  <select
+                    id="durationMinutes"
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                    className={inputClasses(false)}
+                    disabled={loading}
+                  >
+                    {DURATION_OPTIONS.map((option) => (
+                      <option key={option.minutes} value={option.minutes}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {errors.plannedTime ? (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors.plannedTime}</p>
+              ) : (
+                <p className="mt-1.5 text-xs text-stone-500">Venues closed at this time are left out</p>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Group Size */}
               <div>
@@ -339,6 +615,93 @@ export default function PlanningForm({ onSubmit, loading = false }: PlanningForm
               <p className="mt-1.5 text-xs text-stone-500">Separate multiple with commas</p>
             </div>
 
+            {/* Independent Venues */}
+            <div>
+              <label htmlFor="preferIndependent" className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  id="preferIndependent"
+                  checked={preferIndependent}
+                  onChange={(e) => setPreferIndependent(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 rounded border-stone-300 text-teal-600 focus:ring-teal-500"
+                  disabled={loading}
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-stone-700 dark:text-stone-300">
+                    Prefer independent venues
+                  </span>
+                  <span className="block text-xs text-stone-500">Local, independently run places rank above chains</span>
+                </span>
+              </label>
+            </div>
+
+            {/* Language, Country & Units */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label htmlFor="language" className="block text-sm font-semibold text-stone-700 dark:text-stone-300 mb-2">
+                  Language
+                </label>
+                <select
+                  id="language"
+                  value={language}
+                  onChange={(e) => setLanguage(e.target.value)}
+                  className={inputClasses(false)}
+                  disabled={loading}
+                >
+                  {LANGUAGE_OPTIONS.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1.5 text-xs text-stone-500">Used for place names</p>
+              </div>
+              <div>
+                <label htmlFor="countryCode" className="block text-sm font-semibold text-stone-700 dark:text-stone-300 mb-2">
+                  Country
+                </label>
+                <select
+                  id="countryCode"
+                  value={countryCode}
+                  onChange={(e) => changeCountry(e.target.value)}
+                  className={inputClasses(false)}
+                  disabled={loading}
+                >
+                  <option value="">Any country</option>
+                  {COUNTRY_OPTIONS.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1.5 text-xs text-stone-500">Places here are matched first</p>
+              </div>
+              <div>
+                <span className="block text-sm font-semibold text-stone-700 dark:text-stone-300 mb-2">
+                  Units
+                </span>
+                <div className="grid grid-cols-2 gap-2 p-1.5 rounded-xl bg-stone-100 dark:bg-stone-800">
+                  {(['imperial', 'metric'] as const).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => changeUnits(option)}
+                      disabled={loading}
+                      aria-pressed={units === option}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200
+                        ${units === option
+                          ? 'bg-white dark:bg-stone-700 shadow-md text-teal-600 dark:text-teal-400'
+                          : 'text-stone-500 dark:text-stone-400 hover:bg-white/50 dark:hover:bg-stone-700/50'
+                        }
+                        disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                      {RADIUS_RANGE[option].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
             {/* Additional Preferences */}
             <div>
               <label htmlFor="additionalPreferences" className="block text-sm font-semibold text-stone-700 dark:text-stone-300 mb-2">
@@ -3,14 +3,47 @@
  * Displays venue information with refined editorial design
  */
 
-import type { RecommendedVenue } from '@/types/venue';
+import type { RecommendedVenue, VenueAttributes, DietStatus } from '@/types/venue';
+import type { DietaryRestriction, DistanceUnits } from '@/types/user-preferences';
+import { DIETARY_LABELS } from '@/lib/dietary';
+import { formatDistance, toCompassDirection } from '@/lib/geo';
 
 interface VenueCardProps {
   venue: RecommendedVenue;
   index: number;
+  /** Units for the distance label (defaults to imperial) */
+  units?: DistanceUnits;
 }
 
-export default function VenueCard({ venue, index }: VenueCardProps) {
+/**
+ * Builds short display labels from OSM-derived venue attributes
+ * Diets listed in `skipDiets` are left out (they get their own status row)
+ */
+function getAttributeLabels(attributes?: VenueAttributes, skipDiets: string[] = []): string[] {
+  if (!attributes) return [];
+
+  const labels: string[] = [];
+  if (attributes.cuisine?.length) labels.push(...attributes.cuisine.slice(0, 3).map((c) => `🍽️ ${c}`));
+  if (attributes.outdoorSeating) labels.push('🌿 Outdoor seating');
+  if (attributes.wheelchair === 'yes') labels.push('♿ Wheelchair accessible');
+  if (attributes.wheelchair === 'limited') labels.push('♿ Limited accessibility');
+  if (attributes.reservation === 'required') labels.push('📅 Reservation required');
+  if (attributes.reservation === 'recommended') labels.push('📅 Reservation recommended');
+  if (attributes.reservation === 'yes') labels.push('📅 Takes reservations');
+  if (attributes.takeaway === 'yes' || attributes.takeaway === 'only') labels.push('🥡 Takeaway');
+  if (attributes.delivery) labels.push('🛵 Delivery');
+  if (attributes.internetAccess) labels.push('📶 Wi-Fi');
+
+  for (const [diet, value] of Object.entries(attributes.diet || {})) {
+    if ((value === 'yes' || value === 'only') && !skipDiets.includes(diet)) {
+      labels.push(`🥗 ${diet.replace(/_/g, '-')}${value === 'only' ? ' only' : ''}`);
+    }
+  }
+
+  return labels;
+}
+
+export default function VenueCard({ venue, index, units }: VenueCardProps) {
   const score = venue.matchScore;
 
   // Determine match quality styling
@@ -46,6 +79,12 @@ export default function VenueCard({ venue, index }: VenueCardProps) {
   };
 
   const matchStyles = getMatchStyles();
+  const dietaryEntries = Object.entries(venue.dietaryStatus || {}) as [DietaryRestriction, DietStatus][];
+  const attributeLabels = [
+    ...(venue.ownership === 'independent' ? ['🏠 Independent'] : []),
+    ...(venue.ownership === 'chain' ? [venue.attributes?.brand ? `🔗 Chain: ${venue.attributes.brand}` : '🔗 Chain'] : []),
+    ...getAttributeLabels(venue.attributes, dietaryEntries.map(([restriction]) => restriction)),
+  ];
 
   return (
     <article className="group glass rounded-2xl border border-[var(--card-border)] overflow-hidden card-hover">
@@ -74,6 +113,19 @@ export default function VenueCard({ venue, index }: VenueCardProps) {
             <h3 className="text-xl font-display font-bold text-stone-900 dark:text-stone-100 leading-tight group-hover:text-teal-600 dark:group-hover:text-teal-400 transition-colors">
               {venue.name}
             </h3>
+            {/* Opening Status */}
+            {venue.openingStatus === 'open' && (
+              <p className="mt-2 inline-flex items-center gap-1.5 text-xs font-semibold text-emerald-700 dark:text-emerald-400">
+                <span className="w-2 h-2 rounded-full bg-emerald-500" />
+                Open at your planned time
+              </p>
+            )}
+            {venue.openingStatus === 'closes_early' && (
+              <p className="mt-2 inline-flex items-center gap-1.5 text-xs font-semibold text-amber-700 dark:text-amber-400">
+                <span className="w-2 h-2 rounded-full bg-amber-500" />
+                Closes before your plans end
+              </p>
+            )}
             {/* Address */}
             <p className="text-sm text-stone-500 dark:text-stone-400 mt-1 flex items-center gap-1.5">
               <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -81,6 +133,15 @@ export default function VenueCard({ venue, index }: VenueCardProps) {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
               </svg>
               <span className="truncate">{venue.address}</span>
+              {venue.distance !== undefined && (
+                <span
+                  className="flex-shrink-0 text-stone-400 dark:text-stone-500"
+                  title="Straight-line distance from your search location"
+                >
+                  · {formatDistance(venue.distance, units)}
+                  {venue.bearing !== undefined && ` ${toCompassDirection(venue.bearing)}`}
+                </span>
+              )}
             </p>
           </div>
 
@@ -116,6 +177,75 @@ export default function VenueCard({ venue, index }: VenueCardProps) {
           </div>
         )}
 
+        {/* OSM Attributes */}
+        {attributeLabels.length > 0 && (
+          <div className="mb-5 flex flex-wrap gap-2">
+            {attributeLabels.map((label) => (
+              <span
+                key={label}
+                className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-300"
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Dietary Support (for the user's restrictions) */}
+        {dietaryEntries.length > 0 && (
+          <div className="mb-5 flex flex-wrap gap-2">
+            {dietaryEntries.map(([restriction, status]) => {
+              const confirmed = status === 'confirmed' || status === 'only';
+              return (
+                <span
+                  key={restriction}
+                  title={confirmed ? 'Confirmed by OpenStreetMap' : 'Not listed in OpenStreetMap - check with the venue'}
+                  className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium
+                    ${confirmed
+                      ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                      : 'bg-stone-100 dark:bg-stone-800 text-stone-500 dark:text-stone-400'
+                    }`}
+                >
+                  {confirmed ? '✓' : '?'} {DIETARY_LABELS[restriction]}{status === 'only' ? ' only' : ''}
+                </span>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Contact Details */}
+        {(venue.attributes?.website || venue.attributes?.phone || venue.attributes?.openingHours) && (
+          <div className="mb-5 space-y-1.5 text-sm text-stone-500 dark:text-stone-400">
+            {venue.attributes.openingHours && (
+              <p className="flex items-center gap-1.5">
+                <span>🕒</span>
+                <span className="truncate">{venue.attributes.openingHours}</span>
+              </p>
+            )}
+            {venue.attributes.phone && (
+              <p className="flex items-center gap-1.5">
+                <span>📞</span>
+                <a href={`tel:${venue.attributes.phone}`} className="hover:text-teal-600 dark:hover:text-teal-400 transition-colors">
+                  {venue.attributes.phone}
+                </a>
+              </p>
+            )}
+            {venue.attributes.website && (
+              <p className="flex items-center gap-1.5">
+                <span>🌐</span>
+                <a
+                  href={venue.attributes.website}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="truncate text-teal-600 dark:text-teal-400 hover:underline"
+                >
+                  {venue.attributes.website.replace(/^https?:\/\//, '').replace(/\/$/, '')}
+                </a>
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Action Button */}
         <a
           href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(venue.name + ' ' + venue.address)}`}
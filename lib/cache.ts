@@ -9,8 +9,9 @@
  */
 
 import { CacheEntry, CacheStats } from '@/types/cache';
-import { GeocodedLocation } from './nominatim';
-import { Venue } from '@/types/venue';
+import type { AITask } from '@/types/ai';
+import { GeocodedLocation, LocationSuggestion } from './nominatim';
+import type { OverpassVenue } from './overpass';
 
 /**
  * Generic LRU Cache implementation
@@ -82,6 +83,15 @@ class LRUCache<T> {
     console.log(`[CACHE SET] ${key} (TTL: ${ttlMs}ms)`);
   }
 
+  /**
+   * Remove a value from cache
+   */
+  delete(key: string): void {
+    if (this.cache.delete(key)) {
+      console.log(`[CACHE DELETE] ${key}`);
+    }
+  }
+
   /**
    * Remove least recently used entry
    */
@@ -194,17 +204,27 @@ class LRUCache<T> {
 
 /**
  * Geocoding cache instance
+ * Holds geocoded locations ("geocode:" keys), reverse lookups ("reverse:" keys)
+ * and typeahead suggestion lists ("suggest:" keys)
  * TTL: 24 hours (coordinates don't change)
- * Max size: 100 entries (~5MB)
+ * Max size: 300 entries (~15MB), since typeahead caches every typed prefix
  */
-export const geocodeCache = new LRUCache<GeocodedLocation>(100);
+export const geocodeCache = new LRUCache<GeocodedLocation | LocationSuggestion[]>(300);
 
 /**
  * Overpass venue search cache instance
  * TTL: 6 hours (venue data relatively stable)
  * Max size: 200 entries (~40MB)
  */
-export const overpassCache = new LRUCache<(Partial<Venue> & { wikidata?: string })[]>(200);
+export const overpassCache = new LRUCache<Record<string, OverpassVenue[]>>(200);
+
+/**
+ * AI response cache instance
+ * Keyed by model + hash of the normalized prompt ("llm:" keys), see lib/llm-cache.ts
+ * TTL: per task (LLM_CACHE_TTL)
+ * Max size: 500 entries (~5MB, answers are short JSON)
+ */
+export const llmResponseCache = new LRUCache<string>(500);
 
 /**
  * Cache TTL constants (in milliseconds)
@@ -213,3 +233,13 @@ export const CACHE_TTL = {
   GEOCODE: 24 * 60 * 60 * 1000,     // 24 hours
   OVERPASS: 6 * 60 * 60 * 1000,      // 6 hours
 };
+
+/**
+ * AI response cache TTL per task (in milliseconds)
+ * null marks a task as non-deterministic: its responses are never cached
+ */
+export const LLM_CACHE_TTL: Record<AITask, number | null> = {
+  query_generation: 6 * 60 * 60 * 1000, // 6 hours (same occasion + preferences, same categories)
+  ranking: 60 * 60 * 1000,              // 1 hour (the prompt includes opening status at the planned time)
+  refinement: null,                     // follow-ups should vary
+};
@@ -0,0 +1,170 @@
+/**
+ * Dietary Restriction Matching
+ * Maps free-text dietary restrictions to OSM diet:* tags and works out
+ * per-venue support, so recommendations can rely on tagged data instead of guesses.
+ * Tag reference: https://wiki.openstreetmap.org/wiki/Key:diet:*
+ *
+ * diet:* coverage in OSM is sparse, so restrictions are applied as a ranking
+ * boost rather than an Overpass filter: only venues explicitly tagged "no"
+ * are excluded, and untagged venues stay in the results as "unknown".
+ */
+
+import type { DietaryRestriction } from '@/types/user-preferences';
+import type { DietStatus, VenueAttributes } from '@/types/venue';
+
+/**
+ * OSM diet:* key suffix for each supported restriction
+ */
+const DIET_TAGS: Record<DietaryRestriction, string> = {
+  vegan: 'vegan',
+  vegetarian: 'vegetarian',
+  gluten_free: 'gluten_free',
+  halal: 'halal',
+  kosher: 'kosher',
+};
+
+/**
+ * Free-text spellings accepted for each restriction (after normalization)
+ */
+const RESTRICTION_ALIASES: Record<DietaryRestriction, string[]> = {
+  vegan: ['vegan', 'plant based'],
+  vegetarian: ['vegetarian', 'veggie', 'veg'],
+  gluten_free: ['gluten free', 'no gluten', 'celiac', 'coeliac'],
+  halal: ['halal'],
+  kosher: ['kosher'],
+};
+
+/**
+ * Human-readable labels for each restriction
+ */
+export const DIETARY_LABELS: Record<DietaryRestriction, string> = {
+  vegan: 'Vegan',
+  vegetarian: 'Vegetarian',
+  gluten_free: 'Gluten-free',
+  halal: 'Halal',
+  kosher: 'Kosher',
+};
+
+/**
+ * Whether a key is one of the supported restrictions
+ */
+export function isDietaryRestriction(key: string): key is DietaryRestriction {
+  return Object.prototype.hasOwnProperty.call(DIETARY_LABELS, key);
+}
+
+/**
+ * Maps a free-text restriction to a supported restriction
+ *
+ * @example
+ * ```typescript
+ * normalizeDietaryRestriction('Gluten-Free'); // "gluten_free"
+ * normalizeDietaryRestriction('nut allergy'); // undefined
+ * ```
+ */
+export function normalizeDietaryRestriction(text: string): DietaryRestriction | undefined {
+  const normalized = text.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+
+  for (const [restriction, aliases] of Object.entries(RESTRICTION_ALIASES)) {
+    if (aliases.includes(normalized)) return restriction as DietaryRestriction;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts the supported restrictions from the user's free-text list
+ * Duplicates and unrecognized entries are dropped.
+ */
+export function parseDietaryRestrictions(restrictions: string[] = []): DietaryRestriction[] {
+  const parsed = restrictions
+    .map(normalizeDietaryRestriction)
+    .filter((r): r is DietaryRestriction => !!r);
+
+  return Array.from(new Set(parsed));
+}
+
+/**
+ * Converts an OSM diet:* value to a status
+ */
+function toDietStatus(value: string | undefined): DietStatus {
+  switch (value) {
+    case 'yes':
+    case 'limited':
+      return 'confirmed';
+    case 'only':
+      return 'only';
+    case 'no':
+      return 'no';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Works out how well a venue supports a single restriction
+ * Vegan venues also count as vegetarian when diet:vegetarian is missing.
+ */
+export function getDietStatus(
+  attributes: VenueAttributes | undefined,
+  restriction: DietaryRestriction
+): DietStatus {
+  const diet = attributes?.diet || {};
+  const status = toDietStatus(diet[DIET_TAGS[restriction]]);
+
+  if (restriction === 'vegetarian' && status === 'unknown') {
+    const veganStatus = toDietStatus(diet[DIET_TAGS.vegan]);
+    if (veganStatus === 'confirmed' || veganStatus === 'only') return veganStatus;
+  }
+
+  return status;
+}
+
+/**
+ * Works out support for each of the user's restrictions
+ */
+export function getDietaryStatus(
+  attributes: VenueAttributes | undefined,
+  restrictions: DietaryRestriction[]
+): Partial<Record<DietaryRestriction, DietStatus>> {
+  const result: Partial<Record<DietaryRestriction, DietStatus>> = {};
+  for (const restriction of restrictions) {
+    result[restriction] = getDietStatus(attributes, restriction);
+  }
+  return result;
+}
+
+/**
+ * Ranking boost for a venue: one point per confirmed restriction
+ * Returns -1 if any restriction is explicitly not catered for.
+ */
+export function getDietaryScore(status: Partial<Record<DietaryRestriction, DietStatus>>): number {
+  const values = Object.values(status);
+  if (values.includes('no')) return -1;
+  return values.filter((s) => s === 'confirmed' || s === 'only').length;
+}
+
+/**
+ * Describes dietary support in plain language, one line per restriction
+ *
+ * @example
+ * ```typescript
+ * describeDietaryStatus({ vegan: 'confirmed', halal: 'unknown' });
+ * // ["Vegan options confirmed by OpenStreetMap", "Halal: no OpenStreetMap data"]
+ * ```
+ */
+export function describeDietaryStatus(status: Partial<Record<DietaryRestriction, DietStatus>>): string[] {
+  const entries = Object.entries(status).filter(([restriction]) => isDietaryRestriction(restriction));
+  return (entries as [DietaryRestriction, DietStatus][]).map(([restriction, value]) => {
+    const label = DIETARY_LABELS[restriction];
+    switch (value) {
+      case 'confirmed':
+        return `${label} options confirmed by OpenStreetMap`;
+      case 'only':
+        return `Exclusively ${label.toLowerCase()} (confirmed by OpenStreetMap)`;
+      case 'no':
+        return `No ${label.toLowerCase()} options (per OpenStreetMap)`;
+      default:
+        return `${label}: no OpenStreetMap data`;
+    }
+  });
+}
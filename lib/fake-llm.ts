@@ -0,0 +1,59 @@
+/**
+ * Fake AI Provider
+ * Offline mode (AI_PROVIDER=fake): a deterministic stand-in for a real model,
+ * so the app runs without an API key or local server. Never calls the network.
+ */
+
+import { LLMRequestError } from './llm-errors';
+import type { LLMMessage, LLMProvider, LLMProviderResponse } from '@/types/ai';
+
+/**
+ * Produces the answer for a conversation
+ * Return null to simulate an empty answer.
+ */
+export type FakeResponder = (messages: LLMMessage[], model: string) => string | null;
+
+/**
+ * Provider behind AI_PROVIDER=fake
+ * The default responder returns "[]", which fails every route's schema, so the
+ * routes use their deterministic non-AI fallbacks. Queued answers, if any, are
+ * used in order before `respond`.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'Fake';
+  readonly defaultModel = 'fake';
+  /** Every request received, oldest first */
+  readonly calls: { messages: LLMMessage[]; model: string }[];
+  private script: (string | Error | null)[];
+  private respond: FakeResponder;
+
+  constructor(respond: FakeResponder = () => '[]') {
+    this.calls = [];
+    this.script = [];
+    this.respond = respond;
+  }
+
+  /**
+   * Queue answers for the next calls (an Error is thrown instead of answering)
+   */
+  enqueue(...answers: (string | Error | null)[]): void {
+    this.script.push(...answers);
+  }
+
+  async complete(messages: LLMMessage[], model: string): Promise<LLMProviderResponse> {
+    this.calls.push({ messages, model });
+
+    const answer = this.script.length > 0 ? this.script.shift()! : this.respond(messages, model);
+    if (answer instanceof Error) throw answer;
+    if (!answer?.trim()) {
+      throw new LLMRequestError(`Fake API returned empty response from ${model}`, { emptyResponse: true });
+    }
+
+    // Rough token counts (4 characters per token) so usage accounting has numbers to work with
+    const promptLength = messages.reduce((sum, message) => sum + message.content.length, 0);
+    return {
+      content: answer,
+      usage: { promptTokens: Math.ceil(promptLength / 4), completionTokens: Math.ceil(answer.length / 4) },
+    };
+  }
+}
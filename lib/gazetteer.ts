@@ -0,0 +1,235 @@
+/**
+ * Offline Gazetteer
+ * Locally queryable list of cities and postal codes, used when Nominatim is
+ * unreachable (or GEOCODER_OFFLINE=true) so planning still works without network.
+ *
+ * Data comes from GeoNames (CC BY 4.0). `npm run gazetteer` builds the full
+ * data/gazetteer.json at build time (see scripts/build-gazetteer.mjs); without
+ * it, the small bundled data/gazetteer-seed.json of major cities is used.
+ * Results are city/postcode centroids, so they are always marked approximate.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { GeocodedLocation } from './nominatim';
+
+/**
+ * City row: [name, asciiName, countryCode, admin1Code, admin1Name, lat, lng, population]
+ */
+type GazetteerCity = [string, string, string, string, string, number, number, number];
+
+/**
+ * Postal code row: [postalCode, countryCode, placeName, admin1Code, admin1Name, lat, lng]
+ */
+type GazetteerPostcode = [string, string, string, string, string, number, number];
+
+/**
+ * Gazetteer file format (data/gazetteer.json and data/gazetteer-seed.json)
+ */
+interface GazetteerData {
+  source: string;
+  /** Country names keyed by ISO 3166-1 alpha-2 code */
+  countries: Record<string, string>;
+  cities: GazetteerCity[];
+  postcodes: GazetteerPostcode[];
+}
+
+/**
+ * Gazetteer indexed for lookup
+ */
+interface GazetteerIndex {
+  countries: Record<string, string>;
+  citiesByName: Map<string, GazetteerCity[]>;
+  postcodesByCode: Map<string, GazetteerPostcode[]>;
+}
+
+const GAZETTEER_FILES = ['gazetteer.json', 'gazetteer-seed.json'];
+
+/**
+ * Common country spellings that differ from the GeoNames names
+ */
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'US',
+  'united states of america': 'US',
+  america: 'US',
+  uk: 'GB',
+  'great britain': 'GB',
+  britain: 'GB',
+};
+
+let gazetteerIndex: GazetteerIndex | null = null;
+
+/**
+ * Lowercases and strips accents and punctuation
+ * @example normalizePlaceName('Montréal, QC'); // "montreal qc"
+ */
+function normalizePlaceName(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function normalizePostcode(text: string): string {
+  return text.toUpperCase().replace(/[\s-]+/g, '');
+}
+
+/**
+ * Loads and indexes the gazetteer on first use
+ * Prefers the full build, falling back to the bundled seed.
+ */
+function loadGazetteer(): GazetteerIndex {
+  if (gazetteerIndex) return gazetteerIndex;
+
+  let data: GazetteerData = { source: 'none', countries: {}, cities: [], postcodes: [] };
+  for (const file of GAZETTEER_FILES) {
+    const filePath = path.join(process.cwd(), 'data', file);
+    if (fs.existsSync(filePath)) {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as GazetteerData;
+      console.log(`[GAZETTEER] Loaded ${data.cities.length} cities and ${data.postcodes.length} postcodes from ${file}`);
+      break;
+    }
+  }
+
+  const citiesByName = new Map<string, GazetteerCity[]>();
+  for (const city of data.cities) {
+    const names = new Set([normalizePlaceName(city[0]), normalizePlaceName(city[1])]);
+    for (const name of names) {
+      citiesByName.set(name, [...(citiesByName.get(name) || []), city]);
+    }
+  }
+
+  const postcodesByCode = new Map<string, GazetteerPostcode[]>();
+  for (const postcode of data.postcodes) {
+    const code = normalizePostcode(postcode[0]);
+    postcodesByCode.set(code, [...(postcodesByCode.get(code) || []), postcode]);
+  }
+
+  gazetteerIndex = { countries: data.countries, citiesByName, postcodesByCode };
+  return gazetteerIndex;
+}
+
+/**
+ * Checks whether a qualifier ("NY", "Illinois", "France", "USA") describes a place
+ */
+function matchesQualifier(
+  qualifier: string,
+  countryCode: string,
+  admin1Code: string,
+  admin1Name: string,
+  countries: Record<string, string>
+): boolean {
+  const country = COUNTRY_ALIASES[qualifier] || qualifier.toUpperCase();
+  return (
+    country === countryCode ||
+    qualifier === normalizePlaceName(countries[countryCode] || '') ||
+    qualifier === admin1Code.toLowerCase() ||
+    qualifier === normalizePlaceName(admin1Name)
+  );
+}
+
+/**
+ * Finds cities named `name` (or "`name` City") that match all qualifiers
+ * Cities in the preferred country come first, then the most populous.
+ */
+function findCities(
+  index: GazetteerIndex,
+  name: string,
+  qualifiers: string[],
+  preferredCountry?: string
+): GazetteerCity[] {
+  const candidates = [
+    ...(index.citiesByName.get(name) || []),
+    ...(index.citiesByName.get(`${name} city`) || []),
+  ];
+
+  return candidates
+    .filter((city) =>
+      qualifiers.every((q) => matchesQualifier(q, city[2], city[3], city[4], index.countries))
+    )
+    .sort(
+      (a, b) =>
+        Number(b[2] === preferredCountry) - Number(a[2] === preferredCountry) || b[7] - a[7]
+    );
+}
+
+/**
+ * Builds a display name like "Springfield, Illinois, United States"
+ */
+function formatPlace(name: string, admin1Name: string, countryCode: string, index: GazetteerIndex): string {
+  return [name, admin1Name, index.countries[countryCode] || countryCode]
+    .filter((part, i, parts) => part && parts.indexOf(part) === i)
+    .join(', ');
+}
+
+/**
+ * Looks up a location in the offline gazetteer
+ * Accepts "City", "City, Region", "City, Country", "City Region" and postal codes
+ * (optionally followed by a country). The most populous match wins, preferring
+ * `countryCode` when one is given.
+ *
+ * @param query - Location string to look up
+ * @param countryCode - Country to prefer when the name exists in several (ISO 3166-1 alpha-2)
+ * @returns An approximate location, or null if nothing matches
+ *
+ * @example
+ * ```typescript
+ * lookupGazetteer('Springfield, IL'); // { lat: 39.80, lng: -89.64, displayName: "Springfield, Illinois, United States", approximate: true }
+ * lookupGazetteer('94102');           // { lat: 37.78, lng: -122.42, displayName: "94102 San Francisco, California, United States", ... }
+ * ```
+ */
+export function lookupGazetteer(query: string, countryCode?: string): GeocodedLocation | null {
+  const index = loadGazetteer();
+  const preferredCountry = countryCode?.toUpperCase();
+  const parts = query.split(',').map(normalizePlaceName).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const [first, ...qualifiers] = parts;
+
+  // Postal codes contain a digit ("10001", "SW1A 1AA")
+  if (/\d/.test(first)) {
+    // Allow a trailing place name ("10001 New York")
+    const matches =
+      index.postcodesByCode.get(normalizePostcode(first)) ||
+      index.postcodesByCode.get(normalizePostcode(first.split(' ')[0])) ||
+      [];
+    const qualified = matches.filter((p) =>
+      qualifiers.every((q) => matchesQualifier(q, p[1], p[3], p[4], index.countries))
+    );
+    const postcode = qualified.find((p) => p[1] === preferredCountry) || qualified[0];
+    if (!postcode) return null;
+
+    return {
+      lat: postcode[5],
+      lng: postcode[6],
+      displayName: `${postcode[0]} ${formatPlace(postcode[2], postcode[4], postcode[1], index)}`,
+      approximate: true,
+    };
+  }
+
+  // Without commas the region may be trailing words ("Portland OR", "Paris France"),
+  // so try the longest name first
+  const words = first.split(' ');
+  for (let n = words.length; n >= 1; n--) {
+    const trailing = words.slice(n).join(' ');
+    const cities = findCities(
+      index,
+      words.slice(0, n).join(' '),
+      trailing ? [trailing, ...qualifiers] : qualifiers,
+      preferredCountry
+    );
+    if (cities.length > 0) {
+      const [city] = cities;
+      return {
+        lat: city[5],
+        lng: city[6],
+        displayName: formatPlace(city[0], city[4], city[2], index),
+        approximate: true,
+      };
+    }
+  }
+
+  return null;
+}
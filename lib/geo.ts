@@ -0,0 +1,129 @@
+/**
+ * Geographic Helpers
+ * Great-circle distance, bearing and destination-point math on a spherical Earth,
+ * plus distance formatting for display.
+ * Accurate to well under 1% at city scale, which is all venue search needs.
+ */
+
+import type { DistanceUnits } from '@/types/user-preferences';
+
+/**
+ * Mean Earth radius in meters
+ */
+const EARTH_RADIUS_M = 6371008.8;
+
+/**
+ * A latitude/longitude pair in degrees
+ */
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * Calculates the great-circle distance between two points (haversine formula)
+ *
+ * @returns Distance in meters
+ *
+ * @example
+ * ```typescript
+ * haversineDistance({ lat: 40.7128, lng: -74.006 }, { lat: 40.7306, lng: -73.9352 }); // ~6200
+ * ```
+ */
+export function haversineDistance(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Calculates the point reached by travelling a distance along a bearing
+ *
+ * @param origin - Starting point
+ * @param bearing - Direction in degrees clockwise from north
+ * @param distance - Distance in meters
+ */
+export function destinationPoint(origin: LatLng, bearing: number, distance: number): LatLng {
+  const angular = distance / EARTH_RADIUS_M;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(origin.lat);
+  const lng1 = toRadians(origin.lng);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return {
+    lat: toDegrees(lat2),
+    // Normalize longitude to [-180, 180)
+    lng: ((toDegrees(lng2) + 540) % 360) - 180,
+  };
+}
+
+/**
+ * Calculates the initial bearing from one point to another
+ *
+ * @returns Bearing in degrees clockwise from north (0-360)
+ */
+export function initialBearing(from: LatLng, to: LatLng): number {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLng = toRadians(to.lng - from.lng);
+
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Converts a bearing to an 8-point compass direction
+ * @example toCompassDirection(47); // "NE"
+ */
+export function toCompassDirection(bearing: number): string {
+  const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  return directions[Math.round((((bearing % 360) + 360) % 360) / 45) % 8];
+}
+
+/**
+ * Meters in one mile
+ */
+export const METERS_PER_MILE = 1609.34;
+
+/**
+ * Formats a distance for display
+ * Short imperial distances are shown in feet, short metric ones in meters.
+ *
+ * @example
+ * ```typescript
+ * formatDistance(1200);            // "0.7 mi"
+ * formatDistance(120);             // "390 ft"
+ * formatDistance(1200, 'metric');  // "1.2 km"
+ * ```
+ */
+export function formatDistance(meters: number, units: DistanceUnits = 'imperial'): string {
+  if (units === 'metric') {
+    return meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+  }
+
+  const miles = meters / METERS_PER_MILE;
+  return miles < 0.1 ? `${Math.round((meters * 3.28084) / 10) * 10} ft` : `${miles.toFixed(1)} mi`;
+}
@@ -0,0 +1,116 @@
+/**
+ * AI Response Cache
+ * Content-addressed cache in front of the AI providers: identical conversations
+ * sent to the same model get the stored answer instead of a new request.
+ * - Key: model + SHA-256 of the normalized conversation (whitespace-insensitive)
+ * - TTL per task (LLM_CACHE_TTL); tasks with a null TTL are never cached
+ * - Set AI_CACHE_DISABLED=true to always call the model
+ */
+
+import { createHash } from 'crypto';
+import { llmResponseCache, LLM_CACHE_TTL } from './cache';
+import type { AITask, LLMMessage } from '@/types/ai';
+import type { LLMCacheStats } from '@/types/cache';
+
+const taskStats = new Map<AITask, { hits: number; misses: number; bypassed: number }>();
+
+function getTaskStats(task: AITask) {
+  if (!taskStats.has(task)) taskStats.set(task, { hits: 0, misses: 0, bypassed: 0 });
+  return taskStats.get(task)!;
+}
+
+function hitRate(hits: number, misses: number): number {
+  const total = hits + misses;
+  return total > 0 ? Math.round((hits / total) * 100) / 100 : 0;
+}
+
+/**
+ * Normalizes a conversation so formatting-only differences share a cache entry
+ * (indentation, trailing spaces, blank lines and repeated spaces are ignored)
+ */
+function normalizeMessages(messages: LLMMessage[]): string {
+  return messages
+    .map((message) => {
+      const content = message.content
+        .split('\n')
+        .map((line) => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+      return `${message.role}:\n${content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Whether responses for a task may be cached
+ */
+function isCacheable(task: AITask): boolean {
+  return LLM_CACHE_TTL[task] !== null && process.env.AI_CACHE_DISABLED !== 'true';
+}
+
+/**
+ * Builds the cache key for a conversation sent to a model
+ *
+ * @example
+ * ```typescript
+ * getLLMCacheKey('google/gemini-2.5-flash', [{ role: 'user', content: 'Pick categories...' }]);
+ * // "llm:google/gemini-2.5-flash:3f1a9c..."
+ * ```
+ */
+export function getLLMCacheKey(model: string, messages: LLMMessage[]): string {
+  const hash = createHash('sha256').update(normalizeMessages(messages)).digest('hex');
+  return `llm:${model}:${hash.slice(0, 32)}`;
+}
+
+/**
+ * Returns the cached answer for a conversation, or null
+ * Returns null without counting a miss for non-deterministic tasks.
+ */
+export function getCachedLLMResponse(task: AITask, key: string): string | null {
+  const stats = getTaskStats(task);
+  if (!isCacheable(task)) {
+    stats.bypassed++;
+    return null;
+  }
+
+  const cached = llmResponseCache.get(key);
+  if (cached !== null) {
+    stats.hits++;
+  } else {
+    stats.misses++;
+  }
+  return cached;
+}
+
+/**
+ * Stores an answer (no-op for non-deterministic tasks)
+ */
+export function cacheLLMResponse(task: AITask, key: string, response: string): void {
+  const ttl = LLM_CACHE_TTL[task];
+  if (ttl !== null && isCacheable(task)) {
+    llmResponseCache.set(key, response, ttl);
+  }
+}
+
+/**
+ * Removes an answer that turned out to be unusable (e.g. invalid JSON),
+ * so the next identical request asks the model again
+ */
+export function invalidateLLMResponse(key: string): void {
+  llmResponseCache.delete(key);
+}
+
+/**
+ * Get AI response cache statistics
+ */
+export function getLLMCacheStats(): LLMCacheStats {
+  const byTask: LLMCacheStats['byTask'] = {};
+  let bypassed = 0;
+
+  for (const [task, stats] of taskStats) {
+    byTask[task] = { ...stats, hitRate: hitRate(stats.hits, stats.misses) };
+    bypassed += stats.bypassed;
+  }
+
+  return { ...llmResponseCache.getStats(), bypassed, byTask };
+}
@@ -0,0 +1,43 @@
+/**
+ * AI Error Types
+ * Thrown by lib/llm.ts and the providers so routes can pick the right fallback
+ */
+
+/**
+ * Thrown when the AI provider can't be reached or returns an error
+ * Routes fall back to non-AI results.
+ */
+export class LLMRequestError extends Error {
+  /** HTTP status from the provider, if it answered */
+  readonly status?: number;
+  /** True when the model answered with no content */
+  readonly emptyResponse: boolean;
+
+  constructor(message: string, options: { status?: number; emptyResponse?: boolean } = {}) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = options.status;
+    this.emptyResponse = options.emptyResponse ?? false;
+  }
+}
+
+/**
+ * Thrown when the model's answer is still unusable after the repair attempt
+ * Routes can salvage valid parts of `value` before falling back entirely.
+ */
+export class LLMOutputError extends Error {
+  /** Whether the answer wasn't JSON at all, or was JSON of the wrong shape */
+  readonly reason: 'invalid_json' | 'schema_mismatch';
+  /** Validation problems in the last answer */
+  readonly issues: string[];
+  /** The last answer parsed as JSON (only set for schema_mismatch) */
+  readonly value?: unknown;
+
+  constructor(reason: 'invalid_json' | 'schema_mismatch', issues: string[], attempts: number, value?: unknown) {
+    super(`AI response failed validation after ${attempts} attempts: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'LLMOutputError';
+    this.reason = reason;
+    this.issues = issues;
+    this.value = value;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * AI Usage Accounting
+ * Records every model request (tokens, model, latency) with totals per route,
+ * client, model and prompt version for the current UTC day, and enforces a daily token budget
+ * per client through the rate limiter. Also keeps how often AI rankings agree with the
+ * rule-based baseline, so prompt variants can be compared.
+ *
+ * Configuration:
+ * - AI_DAILY_TOKEN_BUDGET: tokens each client may use per UTC day (default 200000, 0 = unlimited)
+ * - AI_CLIENT_API_KEYS: comma-separated "name:key" pairs; requests with a matching
+ *   x-api-key header are charged to "key:<name>" instead of their IP
+ */
+
+import { rateLimiter } from './rate-limiter';
+import type { RateLimitResult } from '@/types/rate-limit';
+import type {
+  AICallContext,
+  BaselineAgreementTotals,
+  LLMCallRecord,
+  LLMUsageStats,
+  LLMUsageTotals,
+} from '@/types/ai';
+
+const DEFAULT_DAILY_TOKEN_BUDGET = 200000;
+
+/**
+ * Calls kept for the stats endpoint
+ */
+const RECENT_CALLS = 50;
+
+/**
+ * Charged to calls made without a context (e.g. scripts)
+ */
+export const UNATTRIBUTED_CONTEXT: AICallContext = { route: 'unknown', clientId: 'internal' };
+
+interface RunningTotals {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}
+
+function emptyTotals(): RunningTotals {
+  return { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0 };
+}
+
+function toUsageTotals(totals: RunningTotals): LLMUsageTotals {
+  return {
+    calls: totals.calls,
+    failures: totals.failures,
+    promptTokens: totals.promptTokens,
+    completionTokens: totals.completionTokens,
+    totalTokens: totals.promptTokens + totals.completionTokens,
+    averageLatencyMs: totals.calls > 0 ? Math.round(totals.latencyMs / totals.calls) : 0,
+  };
+}
+
+function quotaKey(clientId: string): string {
+  return `ai-tokens:${clientId}`;
+}
+
+/**
+ * Daily token budget per client, or null when unlimited
+ */
+export function getDailyTokenBudget(): number | null {
+  const value = Number(process.env.AI_DAILY_TOKEN_BUDGET ?? DEFAULT_DAILY_TOKEN_BUDGET);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Identifies the client AI tokens are charged to
+ * Only keys listed in AI_CLIENT_API_KEYS count; anything else is charged to the IP,
+ * so a made-up key can't be used to get a fresh budget.
+ *
+ * @example
+ * ```typescript
+ * // AI_CLIENT_API_KEYS=partner-a:s3cret
+ * getAIClientId('203.0.113.7', 's3cret');  // "key:partner-a"
+ * getAIClientId('203.0.113.7', undefined); // "ip:203.0.113.7"
+ * ```
+ */
+export function getAIClientId(ip: string, apiKey: string | string[] | undefined): string {
+  const key = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+  if (key) {
+    for (const pair of (process.env.AI_CLIENT_API_KEYS || '').split(',')) {
+      const separator = pair.indexOf(':');
+      if (separator > 0 && pair.slice(separator + 1).trim() === key) {
+        return `key:${pair.slice(0, separator).trim()}`;
+      }
+    }
+  }
+  return `ip:${ip}`;
+}
+
+/**
+ * Checks whether a client has AI tokens left today
+ * Call before the AI calls of a request; usage is charged as each call completes.
+ */
+export function checkAIBudget(clientId: string): RateLimitResult {
+  const budget = getDailyTokenBudget();
+  if (budget === null) {
+    return { allowed: true, remaining: Infinity, resetTime: Date.now() };
+  }
+  return rateLimiter.checkQuota(quotaKey(clientId), budget);
+}
+
+/**
+ * Per-day usage tracker
+ */
+class LLMUsageTracker {
+  private day: string;
+  private total: RunningTotals;
+  private byRoute: Map<string, RunningTotals>;
+  private byClient: Map<string, RunningTotals>;
+  private byModel: Map<string, RunningTotals>;
+  private byPrompt: Map<string, RunningTotals>;
+  private agreement: Map<string, { samples: number; sum: number }>;
+  private recent: LLMCallRecord[];
+
+  constructor() {
+    this.day = new Date().toISOString().slice(0, 10);
+    this.total = emptyTotals();
+    this.byRoute = new Map();
+    this.byClient = new Map();
+    this.byModel = new Map();
+    this.byPrompt = new Map();
+    this.agreement = new Map();
+    this.recent = [];
+  }
+
+  /**
+   * Records one model request and charges its tokens to the client's budget
+   */
+  record(call: LLMCallRecord): void {
+    this.rollOver();
+
+    for (const [totals, key] of [
+      [this.byRoute, call.route],
+      [this.byClient, call.clientId],
+      [this.byModel, call.model],
+      [this.byPrompt, call.promptVersion ?? 'unversioned'],
+    ] as const) {
+      if (!totals.has(key)) totals.set(key, emptyTotals());
+      this.add(totals.get(key)!, call);
+    }
+    this.add(this.total, call);
+
+    this.recent.unshift(call);
+    this.recent.length = Math.min(this.recent.length, RECENT_CALLS);
+
+    const tokens = call.promptTokens + call.completionTokens;
+    if (tokens > 0) rateLimiter.consumeQuota(quotaKey(call.clientId), tokens);
+
+    // Per-client totals are in getStats(); the log leaves out the client (usually an IP)
+    console.log(
+      `[LLM USAGE] ${call.route} ${call.task} ${call.model}: ${call.promptTokens}+${call.completionTokens} tokens` +
+      `${call.estimated ? ' (estimated)' : ''} in ${call.latencyMs}ms${call.success ? '' : ' (failed)'}`
+    );
+  }
+
+  /**
+   * Records how much of an AI ranking overlapped the rule-based top 5 (0-1)
+   */
+  recordBaselineAgreement(promptVersion: string, model: string, agreement: number): void {
+    this.rollOver();
+    const key = `${promptVersion} ${model}`;
+    const totals = this.agreement.get(key) ?? { samples: 0, sum: 0 };
+    totals.samples++;
+    totals.sum += agreement;
+    this.agreement.set(key, totals);
+  }
+
+  /**
+   * Get today's usage
+   */
+  getStats(): LLMUsageStats {
+    this.rollOver();
+    const budget = getDailyTokenBudget();
+    const summarize = (totals: Map<string, RunningTotals>) =>
+      Object.fromEntries(Array.from(totals, ([key, value]) => [key, toUsageTotals(value)]));
+
+    return {
+      day: this.day,
+      total: toUsageTotals(this.total),
+      byRoute: summarize(this.byRoute),
+      byClient: Object.fromEntries(
+        Array.from(this.byClient, ([clientId, value]) => [
+          clientId,
+          {
+            ...toUsageTotals(value),
+            budgetRemaining:
+              budget === null ? null : Math.max(0, budget - rateLimiter.getQuotaUsage(quotaKey(clientId))),
+          },
+        ])
+      ),
+      byModel: summarize(this.byModel),
+      byPrompt: summarize(this.byPrompt),
+      baselineAgreement: Object.fromEntries(
+        Array.from(this.agreement, ([key, { samples, sum }]): [string, BaselineAgreementTotals] => [
+          key,
+          { samples, averageAgreement: Math.round((sum / samples) * 100) / 100 },
+        ])
+      ),
+      dailyTokenBudget: budget,
+      recentCalls: [...this.recent],
+    };
+  }
+
+  private add(totals: RunningTotals, call: LLMCallRecord): void {
+    totals.calls++;
+    if (!call.success) totals.failures++;
+    totals.promptTokens += call.promptTokens;
+    totals.completionTokens += call.completionTokens;
+    totals.latencyMs += call.latencyMs;
+  }
+
+  /**
+   * Starts fresh totals when the UTC day changes
+   */
+  private rollOver(): void {
+    const today = new Date().toISOString().slice(0, 10);
+    if (today === this.day) return;
+
+    this.day = today;
+    this.total = emptyTotals();
+    this.byRoute.clear();
+    this.byClient.clear();
+    this.byModel.clear();
+    this.byPrompt.clear();
+    this.agreement.clear();
+    this.recent = [];
+  }
+}
+
+/**
+ * Global usage tracker
+ * Shared across all API routes
+ */
+export const llmUsage = new LLMUsageTracker();
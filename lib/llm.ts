@@ -0,0 +1,252 @@
+/**
+ * AI Client
+ * Provider-agnostic entry point for all AI calls. Routes use callLLM/callLLMJSON;
+ * the backend is chosen with AI_PROVIDER:
+ * - openrouter (default): OpenRouter API (lib/openrouter.ts)
+ * - openai-compatible: a local llama.cpp/Ollama server (lib/openai-compatible.ts)
+ * - fake: deterministic answers, no network (lib/fake-llm.ts)
+ *
+ * Models are chosen per task from a configurable chain (see lib/model-config.ts).
+ * Every model request is recorded for usage accounting (see lib/llm-usage.ts), and
+ * answers are cached per model and prompt (see lib/llm-cache.ts).
+ */
+
+import { validate, type Schema } from './schema';
+import { getModelChain } from './model-config';
+import { LLMOutputError, LLMRequestError } from './llm-errors';
+import { openRouterProvider } from './openrouter';
+import { openAICompatibleProvider } from './openai-compatible';
+import { FakeLLMProvider } from './fake-llm';
+import { llmUsage, UNATTRIBUTED_CONTEXT } from './llm-usage';
+import { cacheLLMResponse, getCachedLLMResponse, getLLMCacheKey, invalidateLLMResponse } from './llm-cache';
+import type { AICallContext, AITask, AICompletion, LLMMessage, LLMProvider, LLMUsage } from '@/types/ai';
+
+/**
+ * Attempts for structured (JSON) calls: the first answer plus one repair
+ */
+const MAX_JSON_ATTEMPTS = 2;
+
+let providerOverride: LLMProvider | null = null;
+let fakeProvider: FakeLLMProvider | null = null;
+
+/**
+ * Replaces the configured provider; pass null to restore it
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+/**
+ * Returns the active provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (providerOverride) return providerOverride;
+
+  switch (process.env.AI_PROVIDER) {
+    case 'openai-compatible':
+      return openAICompatibleProvider;
+    case 'fake':
+      fakeProvider ??= new FakeLLMProvider();
+      return fakeProvider;
+    default:
+      return openRouterProvider;
+  }
+}
+
+/**
+ * Whether a failed model should be skipped in favor of the next one in the chain
+ * (model removed or renamed, provider outage, or an empty answer)
+ */
+function isModelUnavailable(error: LLMRequestError): boolean {
+  return error.emptyResponse || error.status === 404 || (error.status ?? 0) >= 500;
+}
+
+/**
+ * Rough token counts (4 characters per token) for providers that don't report usage
+ */
+function estimateUsage(messages: LLMMessage[], content: string): LLMUsage {
+  const promptLength = messages.reduce((sum, message) => sum + message.content.length, 0);
+  return { promptTokens: Math.ceil(promptLength / 4), completionTokens: Math.ceil(content.length / 4) };
+}
+
+/**
+ * Sends a conversation to the first model in the task's chain that answers
+ * A cached answer from a model is used instead of calling it. Each model request
+ * is recorded with its tokens and latency, including failed ones.
+ * @returns The answer, the model, and the cache key (to invalidate an unusable answer)
+ * @throws LLMRequestError from the last model if none answered
+ */
+async function completeWithModelChain(
+  messages: LLMMessage[],
+  task: AITask,
+  context: AICallContext
+): Promise<AICompletion & { cacheKey: string }> {
+  const provider = getLLMProvider();
+  const { models } = getModelChain(task, provider.defaultModel);
+  let lastError: LLMRequestError | undefined;
+
+  for (const model of models) {
+    const cacheKey = getLLMCacheKey(model, messages);
+    const cached = getCachedLLMResponse(task, cacheKey);
+    if (cached !== null) {
+      return { data: cached, model, cacheKey };
+    }
+
+    const startTime = Date.now();
+    const record = {
+      timestamp: startTime,
+      route: context.route,
+      clientId: context.clientId,
+      promptVersion: context.promptVersion,
+      task,
+      model,
+    };
+    try {
+      const { content, usage } = await provider.complete(messages, model);
+      llmUsage.record({
+        ...record,
+        ...(usage ?? estimateUsage(messages, content)),
+        estimated: !usage,
+        latencyMs: Date.now() - startTime,
+        success: true,
+      });
+      cacheLLMResponse(task, cacheKey, content);
+      return { data: content, model, cacheKey };
+    } catch (error) {
+      llmUsage.record({
+        ...record,
+        promptTokens: 0,
+        completionTokens: 0,
+        estimated: false,
+        latencyMs: Date.now() - startTime,
+        success: false,
+      });
+
+      if (!(error instanceof LLMRequestError) || !isModelUnavailable(error)) throw error;
+      lastError = error;
+      console.warn(`[LLM] ${task}: ${model} unavailable (${error.message}), trying next model`);
+    }
+  }
+
+  throw lastError ?? new LLMRequestError(`No models configured for ${task}`);
+}
+
+/**
+ * Sends a prompt to the AI and returns the response
+ *
+ * @param prompt - The user prompt to send to the AI
+ * @param task - What the call is for; selects the model chain
+ * @param context - Route and client the tokens are charged to
+ * @returns The AI's text response and the model that answered
+ * @throws LLMRequestError if every model in the chain fails or the provider isn't configured
+ *
+ * @example
+ * ```typescript
+ * const { data, model } = await callLLM(
+ *   'Generate 3 search queries for a romantic date night in a city',
+ *   'query_generation',
+ *   { route: 'search-venues', clientId: 'ip:203.0.113.7' }
+ * );
+ * console.log(data); // AI-generated response
+ * ```
+ */
+export async function callLLM(
+  prompt: string,
+  task: AITask,
+  context: AICallContext = UNATTRIBUTED_CONTEXT
+): Promise<AICompletion> {
+  const { data, model } = await completeWithModelChain([{ role: 'user', content: prompt }], task, context);
+  return { data, model };
+}
+
+/**
+ * Parses a model answer as JSON (inside a markdown code block or bare) and validates it
+ */
+function parseJSONResponse<T>(
+  response: string,
+  schema: Schema<T>
+): { value: T } | { reason: 'invalid_json' | 'schema_mismatch'; issues: string[]; value?: unknown } {
+  // Try to extract JSON from markdown code blocks if present
+  const jsonMatch = response.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  const jsonString = jsonMatch ? jsonMatch[1] : response;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString.trim());
+  } catch (error) {
+    return {
+      reason: 'invalid_json',
+      issues: [`Response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`],
+    };
+  }
+
+  const result = validate(schema, parsed);
+  return result.valid ? { value: result.value } : { reason: 'schema_mismatch', issues: result.issues, value: parsed };
+}
+
+/**
+ * Builds the follow-up message asking the model to fix its answer
+ */
+function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response could not be used because it does not match the requested format:
+${issues.slice(0, 10).map((issue) => `- ${issue}`).join('\n')}
+
+Return the corrected answer as ONLY valid JSON in the format requested above. No markdown, no explanations.`;
+}
+
+/**
+ * Sends a prompt to the AI and parses the response as JSON validated against a schema
+ * If the answer is not valid JSON or doesn't match the schema, the model is asked
+ * once more with the validation problems before giving up.
+ *
+ * @param prompt - The user prompt requesting JSON output
+ * @param schema - Runtime schema the parsed JSON must match
+ * @param task - What the call is for; selects the model chain
+ * @param context - Route and client the tokens are charged to
+ * @returns Parsed and validated JSON, and the model that answered
+ * @throws LLMRequestError if every model in the chain fails
+ * @throws LLMOutputError if the answer is still invalid after the repair attempt
+ *
+ * @example
+ * ```typescript
+ * const { data } = await callLLMJSON(
+ *   'Return a JSON array of 3 search queries for romantic restaurants',
+ *   arraySchema(stringSchema(), { minItems: 1 }),
+ *   'query_generation',
+ *   { route: 'search-venues', clientId: 'ip:203.0.113.7' }
+ * );
+ * console.log(data); // ["upscale restaurants", "wine bars", "rooftop dining"]
+ * ```
+ */
+export async function callLLMJSON<T>(
+  prompt: string,
+  schema: Schema<T>,
+  task: AITask,
+  context: AICallContext = UNATTRIBUTED_CONTEXT
+): Promise<AICompletion<T>> {
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+
+  for (let attempt = 1; ; attempt++) {
+    const { data: response, model, cacheKey } = await completeWithModelChain(messages, task, context);
+    const result = parseJSONResponse(response, schema);
+
+    if ('reason' in result) {
+      invalidateLLMResponse(cacheKey);
+      if (attempt >= MAX_JSON_ATTEMPTS) {
+        throw new LLMOutputError(result.reason, result.issues, attempt, result.value);
+      }
+
+      console.warn(`[LLM] ${task}: invalid response from ${model} (${result.reason}), asking for a repair:`, result.issues.slice(0, 5));
+      messages.push(
+        { role: 'assistant', content: response },
+        { role: 'user', content: buildRepairPrompt(result.issues) }
+      );
+      continue;
+    }
+
+    // A repaired answer is also what the original prompt should get next time
+    if (attempt > 1) cacheLLMResponse(task, getLLMCacheKey(model, messages.slice(0, 1)), response);
+
+    return { data: result.value, model };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Locale Helpers
+ * Language, country and unit settings shared by the planning form, the geocoding
+ * routes and the display code (distances, radius input, price labels).
+ */
+
+import type { DistanceUnits, LocaleSettings } from '@/types/user-preferences';
+import { METERS_PER_MILE } from './geo';
+
+/**
+ * Locale used when the user hasn't chosen one
+ */
+export const DEFAULT_LOCALE: LocaleSettings = {
+  language: 'en',
+  units: 'imperial',
+};
+
+/**
+ * Languages offered in the planning form
+ */
+export const LANGUAGE_OPTIONS = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'ja', label: '日本語' },
+];
+
+/**
+ * Countries offered as a geocoding bias in the planning form
+ */
+export const COUNTRY_OPTIONS = [
+  { code: 'US', label: 'United States' },
+  { code: 'CA', label: 'Canada' },
+  { code: 'GB', label: 'United Kingdom' },
+  { code: 'IE', label: 'Ireland' },
+  { code: 'AU', label: 'Australia' },
+  { code: 'FR', label: 'France' },
+  { code: 'DE', label: 'Germany' },
+  { code: 'ES', label: 'Spain' },
+  { code: 'IT', label: 'Italy' },
+  { code: 'NL', label: 'Netherlands' },
+  { code: 'PT', label: 'Portugal' },
+  { code: 'MX', label: 'Mexico' },
+  { code: 'JP', label: 'Japan' },
+];
+
+/**
+ * Search radius slider range per unit system (in miles or kilometers)
+ */
+export const RADIUS_RANGE: Record<DistanceUnits, { min: number; max: number; ticks: number[]; label: string }> = {
+  imperial: { min: 1, max: 25, ticks: [1, 5, 10, 15, 20, 25], label: 'miles' },
+  metric: { min: 1, max: 40, ticks: [1, 10, 20, 30, 40], label: 'km' },
+};
+
+/**
+ * Minimum query length before location suggestions are looked up
+ * Shorter prefixes match too much of the world to be useful
+ */
+export const MIN_SUGGEST_QUERY_LENGTH = 3;
+
+/**
+ * Largest search radius the form allows, in meters (25 miles)
+ */
+export const MAX_SEARCH_RADIUS_M = Math.round(RADIUS_RANGE.imperial.max * METERS_PER_MILE);
+
+/**
+ * Countries that use miles for everyday distances
+ */
+const IMPERIAL_COUNTRIES = ['US', 'GB', 'LR', 'MM'];
+
+/**
+ * Eurozone countries
+ */
+const EURO_COUNTRIES = [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK',
+];
+
+/**
+ * Currency symbols for non-dollar, non-euro countries
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  GB: '£',
+  JP: '¥',
+  CN: '¥',
+  IN: '₹',
+  KR: '₩',
+  CH: 'CHF',
+  SE: 'kr',
+  NO: 'kr',
+  DK: 'kr',
+  PL: 'zł',
+  BR: 'R$',
+  TR: '₺',
+};
+
+/**
+ * Returns the currency symbol used for price labels in a country
+ * Defaults to "$" (US, Canada, Australia, Mexico, ... and unknown countries).
+ *
+ * @example
+ * ```typescript
+ * getCurrencySymbol('FR'); // "€"
+ * getCurrencySymbol('GB'); // "£"
+ * getCurrencySymbol();     // "$"
+ * ```
+ */
+export function getCurrencySymbol(countryCode?: string): string {
+  const code = countryCode?.toUpperCase();
+  if (!code) return '$';
+  if (EURO_COUNTRIES.includes(code)) return '€';
+  return CURRENCY_SYMBOLS[code] || '$';
+}
+
+/**
+ * Returns the usual unit system for a country
+ */
+export function getDefaultUnits(countryCode?: string): DistanceUnits {
+  return !countryCode || IMPERIAL_COUNTRIES.includes(countryCode.toUpperCase()) ? 'imperial' : 'metric';
+}
+
+/**
+ * Converts a radius in the user's units (miles or km) to meters
+ */
+export function radiusToMeters(radius: number, units: DistanceUnits): number {
+  return units === 'metric' ? radius * 1000 : radius * METERS_PER_MILE;
+}
+
+/**
+ * Converts a radius slider value when the user switches unit systems
+ * Rounded to a whole number and kept inside the new slider range.
+ */
+export function convertRadius(radius: number, from: DistanceUnits, to: DistanceUnits): number {
+  if (from === to) return radius;
+  const converted = radiusToMeters(radius, from) / radiusToMeters(1, to);
+  const { min, max } = RADIUS_RANGE[to];
+  return Math.min(max, Math.max(min, Math.round(converted)));
+}
+
+/**
+ * Validates an accept-language value (BCP 47 tag, e.g. "en" or "pt-BR")
+ */
+export function isValidLanguage(language: unknown): language is string {
+  return typeof language === 'string' && /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(language);
+}
+
+/**
+ * Validates an ISO 3166-1 alpha-2 country code
+ */
+export function isValidCountryCode(countryCode: unknown): countryCode is string {
+  return typeof countryCode === 'string' && /^[A-Za-z]{2}$/.test(countryCode);
+}
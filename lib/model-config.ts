@@ -0,0 +1,42 @@
+/**
+ * AI Model Configuration
+ * Resolves the ordered model chain for each AI task from environment variables:
+ *
+ * - AI_MODEL / AI_FALLBACK_MODELS: primary model and comma-separated fallbacks for every task
+ * - AI_MODEL_<TASK> / AI_FALLBACK_MODELS_<TASK>: per-task overrides, where <TASK> is
+ *   QUERY_GENERATION, RANKING or REFINEMENT
+ *
+ * When a model is unavailable (404, 5xx or an empty answer), the next one in the chain is tried.
+ */
+
+import type { AITask, ModelChain } from '@/types/ai';
+
+function parseModelList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Returns the models to try for a task, primary first, without duplicates
+ *
+ * @param task - What the call is for
+ * @param defaultModel - The provider's model, used when no AI_MODEL is configured
+ *
+ * @example
+ * ```typescript
+ * // AI_MODEL=google/gemini-2.5-flash, AI_FALLBACK_MODELS=meta-llama/llama-3.3-70b-instruct:free
+ * getModelChain('ranking', openRouterProvider.defaultModel);
+ * // { task: 'ranking', models: ['google/gemini-2.5-flash', 'meta-llama/llama-3.3-70b-instruct:free'] }
+ * ```
+ */
+export function getModelChain(task: AITask, defaultModel: string): ModelChain {
+  const suffix = task.toUpperCase();
+  const primary =
+    process.env[`AI_MODEL_${suffix}`]?.trim() || process.env.AI_MODEL?.trim() || defaultModel;
+  const taskFallbacks = process.env[`AI_FALLBACK_MODELS_${suffix}`];
+  const fallbacks = parseModelList(taskFallbacks ?? process.env.AI_FALLBACK_MODELS);
+
+  return { task, models: Array.from(new Set([primary, ...fallbacks])) };
+}
@@ -2,25 +2,46 @@
  * Nominatim API Client (OpenStreetMap Geocoding)
  * 100% FREE - No API key required
  * Usage Policy: https://operations.osmfoundation.org/policies/nominatim/
- * Rate Limit: Maximum 1 request per second
+ * Rate Limit: Maximum 1 request per second (enforced by nominatimScheduler)
  */
 
 import axios from 'axios';
 import { retryWithBackoff } from './retry';
 import { geocodeCache, CACHE_TTL } from './cache';
+import { haversineDistance } from './geo';
+import { nominatimScheduler, SchedulerQueueFullError, SchedulerTimeoutError } from './request-scheduler';
+import { lookupGazetteer } from './gazetteer';
+import { MIN_SUGGEST_QUERY_LENGTH } from './locale';
 
 /**
  * Nominatim API response format
  */
 interface NominatimResponse {
   place_id: number;
+  osm_type?: 'node' | 'way' | 'relation';
+  osm_id?: number;
+  /** [south, north, west, east] as strings */
+  boundingbox?: [string, string, string, string];
   lat: string;
   lon: string;
   display_name: string;
+  class?: string;
   type: string;
   importance: number;
 }
 
+/**
+ * OSM area (neighborhood, district, city...) that a search can be restricted to
+ */
+export interface SearchArea {
+  /** OSM element type of the boundary */
+  osmType: 'way' | 'relation';
+  /** OSM element id of the boundary */
+  osmId: number;
+  /** Bounding box as [south, north, west, east] */
+  boundingBox: [number, number, number, number];
+}
+
 /**
  * Geocoded location coordinates
  */
@@ -28,36 +49,208 @@ export interface GeocodedLocation {
   lat: number;
   lng: number;
   displayName: string;
+  /** Boundary to search within, only set for area-like results (not ZIP codes or addresses) */
+  area?: SearchArea;
+  /** True when the location comes from the offline gazetteer (city or postcode centroid) */
+  approximate?: boolean;
+  /**
+   * Distinct places the query may refer to, best first (this one included)
+   * Only set when the match is ambiguous, e.g. "Springfield"
+   */
+  candidates?: LocationSuggestion[];
+}
+
+/**
+ * Locale options for Nominatim requests
+ */
+export interface GeocodeOptions {
+  /** Preferred language for display names (sent as accept-language), e.g. "fr" */
+  language?: string;
+  /** Country to prefer (ISO 3166-1 alpha-2); other countries are only searched if it has no match */
+  countryCode?: string;
+}
+
+/**
+ * A candidate location for typeahead suggestions
+ */
+export interface LocationSuggestion extends GeocodedLocation {
+  /** Nominatim place type, e.g. "city", "suburb", "postcode" */
+  type: string;
+  /** Nominatim importance score (0-1), used for ranking */
+  importance: number;
+}
+
+/**
+ * Time limit for one Nominatim HTTP request (each retry gets its own)
+ */
+const NOMINATIM_TIMEOUT_MS = 8000;
+
+/**
+ * Ambiguity detection thresholds
+ * - A rival within AMBIGUOUS_IMPORTANCE_RATIO of the top result's importance is a real contender
+ * - A top result below LOW_CONFIDENCE_IMPORTANCE is a weak match, so any rival counts
+ * - Results closer than DISTINCT_PLACE_DISTANCE_M are the same place (a city's node and boundary)
+ */
+const AMBIGUOUS_IMPORTANCE_RATIO = 0.8;
+const LOW_CONFIDENCE_IMPORTANCE = 0.35;
+const DISTINCT_PLACE_DISTANCE_M = 10000;
+
+/**
+ * Nominatim types for settlements and administrative areas, which compete with
+ * each other ("Cambridge" the city vs "Cambridge" the town) regardless of exact type
+ */
+const SETTLEMENT_TYPES = [
+  'city', 'town', 'village', 'hamlet', 'suburb', 'neighbourhood', 'quarter',
+  'borough', 'municipality', 'administrative', 'county', 'state', 'region',
+];
+
+/**
+ * Nominatim classes whose way/relation results describe a searchable area
+ */
+const AREA_CLASSES = ['boundary', 'place', 'landuse', 'leisure'];
+
+/**
+ * Extracts a searchable area from a Nominatim result
+ * Point-like results (nodes, postcodes, addresses) return undefined,
+ * and callers fall back to a radius search around the coordinates.
+ */
+function toSearchArea(result: NominatimResponse): SearchArea | undefined {
+  if (result.osm_type !== 'way' && result.osm_type !== 'relation') return undefined;
+  if (!result.osm_id || !result.boundingbox) return undefined;
+  if (!result.class || !AREA_CLASSES.includes(result.class)) return undefined;
+  if (result.type === 'postcode') return undefined;
+
+  const boundingBox = result.boundingbox.map(Number) as SearchArea['boundingBox'];
+  if (boundingBox.some((n) => isNaN(n))) return undefined;
+
+  return {
+    osmType: result.osm_type,
+    osmId: result.osm_id,
+    boundingBox,
+  };
+}
+
+/**
+ * Converts a Nominatim result into a location suggestion
+ */
+function toLocationSuggestion(result: NominatimResponse): LocationSuggestion {
+  return {
+    lat: parseFloat(result.lat),
+    lng: parseFloat(result.lon),
+    displayName: result.display_name,
+    area: toSearchArea(result),
+    type: result.type,
+    importance: result.importance || 0,
+  };
 }
 
 /**
- * Rate limiter for Nominatim API
- * Ensures we don't exceed 1 request per second
+ * Works out whether a query matched several distinct places
+ * Rivals must be the same kind of place as the top result (by type), far enough
+ * away to be a different place, and close to it in importance (or the top
+ * result must itself be a weak match).
+ *
+ * @returns Distinct candidates best first, or undefined when the top result is a clear winner
  */
-let lastNominatimRequest = 0;
-const NOMINATIM_RATE_LIMIT_MS = 1000; // 1 second
+function findAmbiguousCandidates(results: NominatimResponse[]): LocationSuggestion[] | undefined {
+  // The top result is the one geocodeLocation returns; rivals are checked by importance
+  const [top, ...rivals] = results.map(toLocationSuggestion);
+  if (!top) return undefined;
+  rivals.sort((a, b) => b.importance - a.importance);
+
+  const sameKind = (a: LocationSuggestion, b: LocationSuggestion) =>
+    a.type === b.type || (SETTLEMENT_TYPES.includes(a.type) && SETTLEMENT_TYPES.includes(b.type));
+
+  const candidates: LocationSuggestion[] = [top];
+  for (const result of rivals) {
+    if (!sameKind(top, result)) continue;
+    if (candidates.some((c) => haversineDistance(c, result) < DISTINCT_PLACE_DISTANCE_M)) continue;
+    if (top.importance >= LOW_CONFIDENCE_IMPORTANCE && result.importance < top.importance * AMBIGUOUS_IMPORTANCE_RATIO) continue;
+    candidates.push(result);
+  }
+
+  return candidates.length > 1 ? candidates : undefined;
+}
 
 /**
- * Enforces rate limiting for Nominatim API (1 request per second)
- * Waits if necessary before allowing the next request
+ * Fetches a Nominatim URL through the shared request scheduler
+ * The scheduler enforces the 1 request per second policy across all callers,
+ * and identical URLs requested at the same time share one upstream call.
+ *
+ * @throws SchedulerQueueFullError if too many requests are already waiting
  */
-async function enforceRateLimit(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastNominatimRequest;
+async function fetchNominatim<T>(url: string, maxAttempts: number = 3): Promise<T> {
+  return nominatimScheduler.schedule(url, async (signal) => {
+    // Wrap API call with retry logic for resilience
+    // (a cancelled request isn't retried, and retries after the abort fail immediately)
+    const response = await retryWithBackoff(
+      async () => {
+        return await axios.get<T>(url, {
+          timeout: NOMINATIM_TIMEOUT_MS,
+          signal,
+          headers: {
+            'User-Agent': 'VenueVibe/1.0 (https://venuevibe.app)',
+            'Accept': 'application/json',
+          },
+        });
+      },
+      {
+        maxAttempts,
+        initialDelay: 1000,
+        retryableStatusCodes: [429, 500, 502, 503, 504],
+      }
+    );
+    return response.data;
+  });
+}
+
+/**
+ * Builds a cache key suffix for locale options, so results in different
+ * languages or countries are cached separately
+ */
+function localeKey(options: GeocodeOptions): string {
+  return `${options.language || ''}:${options.countryCode?.toLowerCase() || ''}`;
+}
 
-  if (timeSinceLastRequest < NOMINATIM_RATE_LIMIT_MS) {
-    const waitTime = NOMINATIM_RATE_LIMIT_MS - timeSinceLastRequest;
-    await new Promise((resolve) => setTimeout(resolve, waitTime));
+/**
+ * Runs a Nominatim search with locale options
+ * The country is a bias, not a filter: Nominatim's `countrycodes` parameter
+ * restricts results, so a search with no match in the preferred country is
+ * repeated worldwide.
+ */
+async function searchNominatim(
+  query: string,
+  limit: number,
+  options: GeocodeOptions,
+  maxAttempts?: number
+): Promise<NominatimResponse[]> {
+  let url = `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&limit=${limit}`;
+  if (options.language) url += `&accept-language=${encodeURIComponent(options.language)}`;
+
+  if (options.countryCode) {
+    const biased = await fetchNominatim<NominatimResponse[]>(
+      `${url}&countrycodes=${options.countryCode.toLowerCase()}`,
+      maxAttempts
+    );
+    if (biased && biased.length > 0) return biased;
   }
 
-  lastNominatimRequest = Date.now();
+  return fetchNominatim<NominatimResponse[]>(url, maxAttempts);
 }
 
 /**
  * Geocodes a location string (city, address, or zip code) to latitude/longitude coordinates
  * using the free Nominatim API (OpenStreetMap)
  *
+ * The best match is always returned; when other places match almost as well
+ * ("Springfield", "Cambridge"), they are listed in `candidates` so the caller
+ * can ask the user which one they meant.
+ *
+ * If Nominatim is unreachable (or GEOCODER_OFFLINE=true), the offline gazetteer
+ * is used instead and the result is marked `approximate`.
+ *
  * @param locationString - City name, address, or zip code to geocode
+ * @param options - Preferred language and country
  * @returns Geocoded coordinates with display name
  * @throws Error if location cannot be found or API fails
  *
@@ -71,44 +264,34 @@ async function enforceRateLimit(): Promise<void> {
  * ```
  */
 export async function geocodeLocation(
-  locationString: string
+  locationString: string,
+  options: GeocodeOptions = {}
 ): Promise<GeocodedLocation> {
   if (!locationString || locationString.trim().length === 0) {
     throw new Error('Location string cannot be empty');
   }
 
   // Check cache first
-  const cacheKey = `geocode:${locationString.toLowerCase().trim()}`;
+  const cacheKey = `geocode:${localeKey(options)}:${locationString.toLowerCase().trim()}`;
   const cachedResult = geocodeCache.get(cacheKey);
-  if (cachedResult) {
+  if (cachedResult && !Array.isArray(cachedResult)) {
     return cachedResult;
   }
 
-  // Enforce 1 request per second rate limit (Nominatim requirement)
-  await enforceRateLimit();
-
-  const encodedLocation = encodeURIComponent(locationString.trim());
-  const url = `https://nominatim.openstreetmap.org/search?q=${encodedLocation}&format=json&limit=1`;
+  // Offline mode: never call Nominatim
+  if (process.env.GEOCODER_OFFLINE === 'true') {
+    const offlineResult = lookupGazetteer(locationString, options.countryCode);
+    if (!offlineResult) {
+      throw new Error(
+        `Location "${locationString}" not found in the offline gazetteer. Please try a city name or postal code.`
+      );
+    }
+    return offlineResult;
+  }
 
   try {
-    // Wrap API call with retry logic for resilience
-    const response = await retryWithBackoff(
-      async () => {
-        return await axios.get<NominatimResponse[]>(url, {
-          headers: {
-            'User-Agent': 'VenueVibe/1.0 (https://venuevibe.app)',
-            'Accept': 'application/json',
-          },
-        });
-      },
-      {
-        maxAttempts: 3,
-        initialDelay: 1000,
-        retryableStatusCodes: [429, 500, 502, 503, 504],
-      }
-    );
-
-    const data = response.data;
+    // Fetch a few results so ambiguous names can be detected
+    const data = await searchNominatim(locationString.trim(), 5, options);
 
     if (!data || data.length === 0) {
       throw new Error(
@@ -122,6 +305,8 @@ export async function geocodeLocation(
       lat: parseFloat(result.lat),
       lng: parseFloat(result.lon),
       displayName: result.display_name,
+      area: toSearchArea(result),
+      candidates: findAmbiguousCandidates(data),
     };
 
     // Cache the result for 24 hours
@@ -129,17 +314,105 @@ export async function geocodeLocation(
 
     return geocodedLocation;
   } catch (error) {
+    // Busy: let the route answer 503 with a Retry-After
+    if (error instanceof SchedulerQueueFullError) throw error;
+
     if (error instanceof Error) {
-      // Re-throw our custom errors
-      if (error.message.includes('not found') || error.message.includes('Nominatim')) {
+      // Re-throw our custom errors (a timeout is an outage, so it falls through to the gazetteer)
+      if (
+        !(error instanceof SchedulerTimeoutError) &&
+        (error.message.includes('not found') || error.message.includes('Nominatim'))
+      ) {
         throw error;
       }
+
+      // Nominatim is unreachable: fall back to the offline gazetteer
+      // (not cached, so the next request tries Nominatim again)
+      const offlineResult = lookupGazetteer(locationString, options.countryCode);
+      if (offlineResult) {
+        console.warn(`[GEOCODE] Nominatim failed (${error.message}), using offline gazetteer for "${locationString}"`);
+        return offlineResult;
+      }
       throw new Error(`Failed to geocode location: ${error.message}`);
     }
     throw new Error('Failed to geocode location: Unknown error');
   }
 }
 
+/**
+ * Looks up candidate locations for a partially typed query
+ * using the free Nominatim API (OpenStreetMap)
+ *
+ * Nominatim's usage policy forbids autocomplete that hits the API on every
+ * keystroke, so this runs server-side behind the shared 1 req/s limit and the
+ * geocode cache, and callers are expected to debounce. Each suggestion is also
+ * cached under its display name, so geocoding a picked suggestion is free.
+ *
+ * @param query - Partial city name, address, or zip code
+ * @param limit - Maximum number of suggestions (1-10)
+ * @param options - Preferred language and country
+ * @returns Suggestions ranked by importance (empty if the query is too short)
+ *
+ * @example
+ * ```typescript
+ * const suggestions = await suggestLocations('brookl');
+ * console.log(suggestions[0].displayName); // "Brooklyn, Kings County, New York, United States"
+ * ```
+ */
+export async function suggestLocations(
+  query: string,
+  limit: number = 5,
+  options: GeocodeOptions = {}
+): Promise<LocationSuggestion[]> {
+  const normalizedQuery = query.toLowerCase().trim().replace(/\s+/g, ' ');
+  if (normalizedQuery.length < MIN_SUGGEST_QUERY_LENGTH) {
+    return [];
+  }
+
+  const safeLimit = Math.min(10, Math.max(1, Math.floor(limit)));
+
+  // Check cache first
+  const cacheKey = `suggest:${safeLimit}:${localeKey(options)}:${normalizedQuery}`;
+  const cachedResult = geocodeCache.get(cacheKey);
+  if (cachedResult && Array.isArray(cachedResult)) {
+    return cachedResult;
+  }
+
+  try {
+    const data = await searchNominatim(normalizedQuery, safeLimit, options, 2);
+
+    // Rank by importance and drop repeated names (e.g. a city's node and boundary)
+    const seen = new Set<string>();
+    const suggestions: LocationSuggestion[] = (data || [])
+      .slice()
+      .sort((a, b) => (b.importance || 0) - (a.importance || 0))
+      .filter((result) => {
+        if (seen.has(result.display_name)) return false;
+        seen.add(result.display_name);
+        return true;
+      })
+      .map(toLocationSuggestion);
+
+    geocodeCache.set(cacheKey, suggestions, CACHE_TTL.GEOCODE);
+
+    // Picking a suggestion submits its display name; pre-cache it for geocodeLocation
+    for (const { lat, lng, displayName, area } of suggestions) {
+      const locationKey = `geocode:${localeKey(options)}:${displayName.toLowerCase()}`;
+      if (!geocodeCache.has(locationKey)) {
+        geocodeCache.set(locationKey, { lat, lng, displayName, area }, CACHE_TTL.GEOCODE);
+      }
+    }
+
+    return suggestions;
+  } catch (error) {
+    if (error instanceof SchedulerQueueFullError) throw error;
+    if (error instanceof Error) {
+      throw new Error(`Failed to suggest locations: ${error.message}`);
+    }
+    throw new Error('Failed to suggest locations: Unknown error');
+  }
+}
+
 /**
  * Reverse geocodes coordinates to a human-readable address
  * using the free Nominatim API (OpenStreetMap)
@@ -157,7 +430,8 @@ export async function geocodeLocation(
  */
 export async function reverseGeocode(
   lat: number,
-  lng: number
+  lng: number,
+  options: Pick<GeocodeOptions, 'language'> = {}
 ): Promise<string> {
   if (lat < -90 || lat > 90) {
     throw new Error('Latitude must be between -90 and 90');
@@ -166,37 +440,29 @@ export async function reverseGeocode(
     throw new Error('Longitude must be between -180 and 180');
   }
 
-  // Enforce 1 request per second rate limit (Nominatim requirement)
-  await enforceRateLimit();
+  // Check cache first (4 decimal places is ~10m, well within GPS accuracy)
+  const cacheKey = `reverse:${options.language || ''}:${lat.toFixed(4)}:${lng.toFixed(4)}`;
+  const cachedResult = geocodeCache.get(cacheKey);
+  if (cachedResult && !Array.isArray(cachedResult)) {
+    return cachedResult.displayName;
+  }
 
-  const url = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lng}&format=json`;
+  let url = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lng}&format=json`;
+  if (options.language) url += `&accept-language=${encodeURIComponent(options.language)}`;
 
   try {
-    // Wrap API call with retry logic for resilience
-    const response = await retryWithBackoff(
-      async () => {
-        return await axios.get<NominatimResponse>(url, {
-          headers: {
-            'User-Agent': 'VenueVibe/1.0 (https://venuevibe.app)',
-            'Accept': 'application/json',
-          },
-        });
-      },
-      {
-        maxAttempts: 3,
-        initialDelay: 1000,
-        retryableStatusCodes: [429, 500, 502, 503, 504],
-      }
-    );
-
-    const data = response.data;
+    const data = await fetchNominatim<NominatimResponse>(url);
 
     if (!data || !data.display_name) {
       throw new Error('Unable to reverse geocode coordinates');
     }
 
+    // Cache the result for 24 hours
+    geocodeCache.set(cacheKey, { lat, lng, displayName: data.display_name }, CACHE_TTL.GEOCODE);
+
     return data.display_name;
   } catch (error) {
+    if (error instanceof SchedulerQueueFullError) throw error;
     if (error instanceof Error) {
       throw new Error(`Failed to reverse geocode: ${error.message}`);
     }
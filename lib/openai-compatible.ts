@@ -0,0 +1,127 @@
+/**
+ * OpenAI-Compatible Chat Provider
+ * Talks to any server implementing POST /chat/completions, such as a local
+ * llama.cpp server or Ollama (AI_PROVIDER=openai-compatible).
+ *
+ * Configuration:
+ * - AI_BASE_URL: API base URL (default: http://localhost:11434/v1, Ollama)
+ * - AI_API_KEY: Bearer token, if the server requires one
+ * - AI_MODEL: model name (llama.cpp serves its loaded model whatever the name)
+ */
+
+import { retryWithBackoff } from './retry';
+import { LLMRequestError } from './llm-errors';
+import type { LLMMessage, LLMProvider, LLMProviderResponse } from '@/types/ai';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Chat completions response format (OpenAI API)
+ */
+interface ChatCompletionResponse {
+  id: string;
+  model: string;
+  choices: {
+    message: {
+      role: string;
+      content: string | null;
+    };
+    finish_reason: string;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * Sends a chat completions request and returns the reply
+ * Shared by every provider that speaks the OpenAI chat format.
+ *
+ * @param provider - Provider name for error messages
+ * @param url - Full chat completions URL
+ * @param headers - Extra headers (authorization, attribution)
+ * @throws LLMRequestError if the call fails or the answer is empty
+ */
+export async function requestChatCompletion(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  messages: LLMMessage[],
+  model: string
+): Promise<LLMProviderResponse> {
+  try {
+    // Wrap API call with retry logic for resilience
+    const data = await retryWithBackoff(
+      async () => {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ model, messages }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          const error: any = new Error(
+            `${provider} API error (${response.status}): ${errorText}`
+          );
+          error.response = { status: response.status };
+          throw error;
+        }
+
+        const data: ChatCompletionResponse = await response.json();
+        return data;
+      },
+      {
+        maxAttempts: 3,
+        initialDelay: 1000,
+        retryableStatusCodes: [429, 500, 502, 503, 504],
+      }
+    );
+
+    // Extract the AI's response text
+    const content = data.choices[0]?.message?.content;
+
+    if (!content?.trim()) {
+      throw new LLMRequestError(`${provider} API returned empty response from ${model}`, { emptyResponse: true });
+    }
+
+    return {
+      content,
+      usage: data.usage
+        ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+        : undefined,
+    };
+  } catch (error) {
+    if (error instanceof LLMRequestError) throw error;
+    if (error instanceof Error) {
+      const status = (error as { response?: { status?: number } }).response?.status;
+      throw new LLMRequestError(`Failed to call ${provider} API: ${error.message}`, { status });
+    }
+    throw new LLMRequestError(`Failed to call ${provider} API: Unknown error`);
+  }
+}
+
+/**
+ * Provider for a self-hosted OpenAI-compatible server
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'OpenAI-compatible';
+  readonly defaultModel = 'local';
+
+  async complete(messages: LLMMessage[], model: string): Promise<LLMProviderResponse> {
+    const baseUrl = (process.env.AI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const apiKey = process.env.AI_API_KEY;
+
+    return requestChatCompletion(
+      this.name,
+      `${baseUrl}/chat/completions`,
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      messages,
+      model
+    );
+  }
+}
+
+export const openAICompatibleProvider = new OpenAICompatibleProvider();
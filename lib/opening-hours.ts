@@ -0,0 +1,416 @@
+/**
+ * OSM opening_hours Parser & Evaluator
+ * Parses the OpenStreetMap opening_hours syntax and checks whether a venue
+ * is open at a given local time.
+ * Spec: https://wiki.openstreetmap.org/wiki/Key:opening_hours/specification
+ *
+ * Supported subset:
+ * - "24/7"
+ * - Weekday selectors and ranges, including wrap-around ("Mo-Fr", "Sa,Su", "Fr-Mo")
+ * - Public/school holiday selectors ("PH", "SH"); without a holiday calendar,
+ *   getOpeningStatus reports 'unknown' when they could change the answer
+ * - Time ranges, multiple per rule, overnight spans and open ends
+ *   ("11:00-14:00,17:00-22:00", "18:00-02:00", "20:00+")
+ * - "off" / "closed" / "open" modifiers
+ * - ";" (overriding) and "," / "||" (additional) rule separators
+ *
+ * Anything else (month/date/week selectors, sunrise/sunset, nth weekdays)
+ * makes the whole value unparseable, and callers treat it as unknown.
+ */
+
+import type { OpeningStatus } from '@/types/venue';
+
+/**
+ * Time range in minutes from local midnight
+ * `end` may exceed 1440 for ranges that run past midnight
+ */
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A single parsed opening_hours rule
+ */
+interface OpeningRule {
+  /** Weekdays this rule applies to (0 = Monday ... 6 = Sunday) */
+  days: number[];
+  /** Whether the rule also applies on public or school holidays */
+  holidays: boolean;
+  /** Open ranges on matching days (empty = closed) */
+  ranges: TimeRange[];
+  /** Additional rules add to earlier ones instead of replacing them */
+  additive: boolean;
+}
+
+/**
+ * Parsed opening_hours value
+ */
+export interface OpeningHoursSchedule {
+  rules: OpeningRule[];
+}
+
+/**
+ * Predicate telling whether a date is a public holiday
+ * Receives a wall-clock date (see toWallClockDate)
+ */
+export type HolidayCheck = (date: Date) => boolean;
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Step used when checking that a venue stays open for the planned duration */
+const DURATION_CHECK_STEP_MINUTES = 15;
+
+/** Treats every day as a regular day (PH rules never apply) */
+const NO_HOLIDAYS: HolidayCheck = () => false;
+
+/** Treats every day as a holiday (PH rules always apply) */
+const ALL_HOLIDAYS: HolidayCheck = () => true;
+
+/**
+ * Parses "HH:MM" into minutes from midnight (24:00 allowed)
+ */
+function parseClock(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parses a comma-separated list of time ranges
+ * @example parseTimeRanges('11:00-14:00,18:00-02:00')
+ */
+function parseTimeRanges(value: string): TimeRange[] | null {
+  const ranges: TimeRange[] = [];
+
+  for (const part of value.split(',')) {
+    const text = part.trim();
+
+    // Open end without closing time ("20:00+"): assume open until midnight
+    const openEnd = text.match(/^(\d{1,2}:\d{2})\+$/);
+    if (openEnd) {
+      const start = parseClock(openEnd[1]);
+      if (start === null) return null;
+      ranges.push({ start, end: MINUTES_PER_DAY });
+      continue;
+    }
+
+    const match = text.match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\+?$/);
+    if (!match) return null;
+
+    const start = parseClock(match[1]);
+    let end = parseClock(match[2]);
+    if (start === null || end === null) return null;
+
+    // Overnight span ("18:00-02:00") continues into the next day
+    if (end <= start) end += MINUTES_PER_DAY;
+    ranges.push({ start, end });
+  }
+
+  return ranges;
+}
+
+/**
+ * Parses a weekday selector such as "Mo-Fr,PH" or "Fr-Mo"
+ */
+function parseDaySelector(value: string): { days: number[]; holidays: boolean } | null {
+  const days = new Set<number>();
+  let holidays = false;
+
+  for (const part of value.split(',')) {
+    const text = part.trim();
+
+    if (text === 'PH' || text === 'SH') {
+      holidays = true;
+      continue;
+    }
+
+    const match = text.match(/^(Mo|Tu|We|Th|Fr|Sa|Su)(?:-(Mo|Tu|We|Th|Fr|Sa|Su))?$/);
+    if (!match) return null;
+
+    const from = WEEKDAYS.indexOf(match[1]);
+    const to = match[2] ? WEEKDAYS.indexOf(match[2]) : from;
+
+    // Ranges may wrap around the week ("Fr-Mo")
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === to) break;
+    }
+  }
+
+  return { days: Array.from(days).sort((a, b) => a - b), holidays };
+}
+
+/**
+ * Parses a single rule such as "Mo-Fr 10:00-22:00" or "PH off"
+ */
+function parseRule(text: string, additive: boolean): OpeningRule | null {
+  const rule = text.trim();
+  if (rule.length === 0 || rule.includes('"')) return null;
+
+  if (rule === '24/7') {
+    return { days: ALL_DAYS, holidays: true, ranges: [{ start: 0, end: MINUTES_PER_DAY }], additive };
+  }
+
+  // Split the leading weekday selector (if any) from the time part
+  const selectorMatch = rule.match(
+    /^((?:Mo|Tu|We|Th|Fr|Sa|Su|PH|SH)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?(?:\s*,\s*(?:Mo|Tu|We|Th|Fr|Sa|Su|PH|SH)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?)*)(?=\s|$)/
+  );
+
+  let days = ALL_DAYS;
+  let holidays = true;
+  let rest = rule;
+
+  if (selectorMatch) {
+    const selector = parseDaySelector(selectorMatch[1].replace(/\s+/g, ''));
+    if (!selector) return null;
+    days = selector.days;
+    holidays = selector.holidays;
+    rest = rule.slice(selectorMatch[0].length).trim();
+  }
+
+  const modifier = rest.toLowerCase();
+
+  if (modifier === 'off' || modifier === 'closed') {
+    return { days, holidays, ranges: [], additive };
+  }
+
+  // A bare selector ("Sa") or "open" means open all day
+  if (modifier === '' || modifier === 'open') {
+    return { days, holidays, ranges: [{ start: 0, end: MINUTES_PER_DAY }], additive };
+  }
+
+  const ranges = parseTimeRanges(rest.replace(/\s+open$/i, ''));
+  if (!ranges) return null;
+
+  return { days, holidays, ranges, additive };
+}
+
+/**
+ * Splits a rule sequence on "," when it separates two complete rules
+ * ("Mo-Fr 10:00-20:00, Sa 10:00-14:00") rather than weekdays or times.
+ */
+function splitAdditionalRules(sequence: string): string[] {
+  const parts = sequence.split(/,\s*(?=(?:Mo|Tu|We|Th|Fr|Sa|Su|PH|SH)\b)/);
+  const rules: string[] = [];
+
+  for (const part of parts) {
+    const previous = rules[rules.length - 1];
+    // Only start a new rule when the previous one already has its time part
+    if (previous !== undefined && /\d{1,2}:\d{2}|\boff\b|\bclosed\b/.test(previous)) {
+      rules.push(part);
+    } else if (previous !== undefined) {
+      rules[rules.length - 1] = `${previous},${part}`;
+    } else {
+      rules.push(part);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Parses an OSM opening_hours value
+ *
+ * @param value - Raw opening_hours tag value
+ * @returns Parsed schedule, or null if the value uses unsupported syntax
+ *
+ * @example
+ * ```typescript
+ * parseOpeningHours('Mo-Fr 11:00-22:00; Sa,Su 10:00-23:00; PH off');
+ * parseOpeningHours('Jan-Mar Mo 10:00-12:00'); // null (month selectors unsupported)
+ * ```
+ */
+export function parseOpeningHours(value: string): OpeningHoursSchedule | null {
+  const rules: OpeningRule[] = [];
+
+  for (const [index, fallbackGroup] of value.split('||').entries()) {
+    for (const sequence of fallbackGroup.split(';')) {
+      if (sequence.trim().length === 0) continue;
+
+      for (const [position, ruleText] of splitAdditionalRules(sequence).entries()) {
+        // "," and "||" rules add to earlier rules instead of overriding them
+        const rule = parseRule(ruleText, position > 0 || (index > 0 && rules.length > 0));
+        if (!rule) return null;
+        rules.push(rule);
+      }
+    }
+  }
+
+  return rules.length > 0 ? { rules } : null;
+}
+
+/**
+ * Returns the open ranges for one calendar day
+ * Later rules override earlier ones for the days they cover.
+ */
+function getDayRanges(schedule: OpeningHoursSchedule, weekday: number, isHoliday: boolean): TimeRange[] {
+  let ranges: TimeRange[] = [];
+
+  for (const rule of schedule.rules) {
+    const holidayOnly = rule.days.length === 0;
+    const applies = isHoliday
+      ? rule.holidays || (!holidayOnly && rule.days.includes(weekday))
+      : rule.days.includes(weekday);
+
+    if (!applies) continue;
+    ranges = rule.additive ? [...ranges, ...rule.ranges] : rule.ranges;
+  }
+
+  return ranges;
+}
+
+/**
+ * Converts a JS day (0 = Sunday) to the OSM weekday index (0 = Monday)
+ */
+function toWeekday(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Checks whether a schedule is open at a given wall-clock time
+ *
+ * @param schedule - Parsed opening hours
+ * @param when - Wall-clock time at the venue, stored in the Date's UTC fields
+ * @param isPublicHoliday - Optional holiday calendar (by default no day is a holiday)
+ */
+export function isOpenAt(
+  schedule: OpeningHoursSchedule,
+  when: Date,
+  isPublicHoliday: HolidayCheck = NO_HOLIDAYS
+): boolean {
+  const minute = when.getUTCHours() * 60 + when.getUTCMinutes();
+  const today = getDayRanges(schedule, toWeekday(when), isPublicHoliday(when));
+
+  if (today.some((r) => minute >= r.start && minute < r.end)) {
+    return true;
+  }
+
+  // Overnight ranges from the previous day ("Fr 18:00-02:00" covers Sa 01:00)
+  const previousDay = new Date(when.getTime() - MINUTES_PER_DAY * 60 * 1000);
+  const yesterday = getDayRanges(schedule, toWeekday(previousDay), isPublicHoliday(previousDay));
+
+  return yesterday.some((r) => r.end > MINUTES_PER_DAY && minute + MINUTES_PER_DAY < r.end);
+}
+
+/**
+ * Checks the planned visit against a schedule for a given holiday calendar
+ */
+function evaluateVisit(
+  schedule: OpeningHoursSchedule,
+  start: Date,
+  durationMinutes: number,
+  isPublicHoliday: HolidayCheck
+): OpeningStatus {
+  if (!isOpenAt(schedule, start, isPublicHoliday)) return 'closed';
+
+  for (let offset = DURATION_CHECK_STEP_MINUTES; offset < durationMinutes; offset += DURATION_CHECK_STEP_MINUTES) {
+    const checkTime = new Date(start.getTime() + offset * 60 * 1000);
+    if (!isOpenAt(schedule, checkTime, isPublicHoliday)) return 'closes_early';
+  }
+
+  // Also check the last minute of the visit
+  const lastMinute = new Date(start.getTime() + Math.max(0, durationMinutes - 1) * 60 * 1000);
+  return isOpenAt(schedule, lastMinute, isPublicHoliday) ? 'open' : 'closes_early';
+}
+
+/**
+ * Evaluates whether a venue is open for the whole planned visit
+ *
+ * @param openingHours - Raw OSM opening_hours value (may be undefined)
+ * @param start - Planned start as a wall-clock date (see toWallClockDate)
+ * @param durationMinutes - Planned length of the visit
+ * @param isPublicHoliday - Holiday calendar; without one, the date can't be ruled out
+ *                          as a holiday, so schedules whose holiday rules change the
+ *                          answer ("Mo-Fr 10:00-22:00; PH off") are 'unknown'
+ * @returns 'open', 'closes_early' (open at start but not for the whole visit),
+ *          'closed', or 'unknown' when the hours are missing, unparseable or
+ *          depend on holidays we can't check
+ */
+export function getOpeningStatus(
+  openingHours: string | undefined,
+  start: Date,
+  durationMinutes: number,
+  isPublicHoliday?: HolidayCheck
+): OpeningStatus {
+  if (!openingHours) return 'unknown';
+
+  const schedule = parseOpeningHours(openingHours);
+  if (!schedule) return 'unknown';
+
+  if (isPublicHoliday) return evaluateVisit(schedule, start, durationMinutes, isPublicHoliday);
+
+  // Schedules without PH/SH rules give the same answer either way
+  const regularDay = evaluateVisit(schedule, start, durationMinutes, NO_HOLIDAYS);
+  const holiday = evaluateVisit(schedule, start, durationMinutes, ALL_HOLIDAYS);
+  return regularDay === holiday ? regularDay : 'unknown';
+}
+
+/**
+ * Checks whether an opening_hours value means the venue never opens
+ * (e.g. "off", "closed", "Mo-Su off"). Unparseable values return false.
+ */
+export function isAlwaysClosed(openingHours: string): boolean {
+  const schedule = parseOpeningHours(openingHours);
+  if (!schedule) return false;
+
+  return ALL_DAYS.every(
+    (day) => getDayRanges(schedule, day, false).length === 0 && getDayRanges(schedule, day, true).length === 0
+  );
+}
+
+/**
+ * Formats minutes from midnight as "HH:MM" (wrapping past midnight)
+ */
+function formatClock(minutes: number): string {
+  const wrapped = minutes === MINUTES_PER_DAY ? minutes : minutes % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60).toString().padStart(2, '0');
+  const mins = (wrapped % 60).toString().padStart(2, '0');
+  return `${hours}:${mins}`;
+}
+
+/**
+ * Formats an opening_hours value as one line per weekday
+ *
+ * @returns Lines like "Monday: 11:00–14:00, 17:00–22:00" or "Sunday: Closed",
+ *          or an empty array if the value cannot be parsed
+ */
+export function formatWeeklySchedule(openingHours: string | undefined): string[] {
+  if (!openingHours) return [];
+
+  const schedule = parseOpeningHours(openingHours);
+  if (!schedule) return [];
+
+  return ALL_DAYS.map((day) => {
+    const ranges = getDayRanges(schedule, day, false);
+    if (ranges.length === 0) return `${WEEKDAY_NAMES[day]}: Closed`;
+    if (ranges.some((r) => r.start === 0 && r.end >= MINUTES_PER_DAY)) return `${WEEKDAY_NAMES[day]}: Open 24 hours`;
+
+    const text = ranges.map((r) => `${formatClock(r.start)}–${formatClock(r.end)}`).join(', ');
+    return `${WEEKDAY_NAMES[day]}: ${text}`;
+  });
+}
+
+/**
+ * Builds a wall-clock Date from the planning form's date and time fields
+ * The local time is stored in the Date's UTC fields, so evaluation does not
+ * depend on the server's time zone.
+ *
+ * @param date - Date as "YYYY-MM-DD"
+ * @param time - Time as "HH:MM"
+ * @returns Wall-clock date, or null if either value is invalid
+ */
+export function toWallClockDate(date: string, time: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{2}:\d{2}$/.test(time)) return null;
+
+  const result = new Date(`${date}T${time}:00Z`);
+  return isNaN(result.getTime()) ? null : result;
+}
@@ -0,0 +1,388 @@
+/**
+ * OSM Venue Category Registry
+ * Controlled vocabulary of venue categories mapped to Overpass QL selectors.
+ *
+ * The AI search-term prompt is generated from this registry, and Overpass
+ * queries are built from it, so the two always speak the same vocabulary.
+ * Tag reference: https://wiki.openstreetmap.org/wiki/Map_features
+ */
+
+/**
+ * Broad grouping used to organize categories in the AI prompt
+ */
+export type OSMCategoryGroup = 'food' | 'drinks' | 'entertainment' | 'culture' | 'outdoors';
+
+/**
+ * A single venue category in the controlled vocabulary
+ */
+export interface OSMCategory {
+  /** Search term the AI must return (snake_case), e.g. "wine_bar" */
+  id: string;
+  /** Short human-readable description shown to the AI */
+  description: string;
+  /** Group the category belongs to */
+  group: OSMCategoryGroup;
+  /**
+   * Overpass tag filters, each matched separately and unioned together
+   * @example ['["craft"="brewery"]', '["microbrewery"="yes"]']
+   */
+  selectors: string[];
+  /** Extra free-text terms that should resolve to this category */
+  aliases?: string[];
+}
+
+/**
+ * Builds a restaurant category filtered by an OSM cuisine value
+ */
+function cuisineCategory(
+  id: string,
+  cuisine: string,
+  description: string,
+  aliases: string[] = []
+): OSMCategory {
+  return {
+    id,
+    description,
+    group: 'food',
+    selectors: [`["amenity"~"restaurant|fast_food"]["cuisine"~"${cuisine}"]`],
+    aliases,
+  };
+}
+
+/**
+ * All supported venue categories
+ * Order matters for alias resolution: more specific categories come first.
+ */
+export const OSM_CATEGORIES: readonly OSMCategory[] = [
+  // Food
+  {
+    id: 'fine_dining',
+    description: 'Upscale, formal restaurants',
+    group: 'food',
+    selectors: ['["amenity"="restaurant"]["cuisine"~"fine_dining"]', '["amenity"="restaurant"]["fine_dining"="yes"]'],
+    aliases: ['upscale_restaurant', 'gourmet'],
+  },
+  cuisineCategory('italian_restaurant', 'italian', 'Italian restaurants', ['italian']),
+  cuisineCategory('french_restaurant', 'french', 'French restaurants and bistros', ['french', 'bistro']),
+  cuisineCategory('mexican_restaurant', 'mexican', 'Mexican restaurants and taquerias', ['mexican', 'taco']),
+  cuisineCategory('chinese_restaurant', 'chinese', 'Chinese restaurants', ['chinese']),
+  cuisineCategory('japanese_restaurant', 'japanese|sushi|ramen', 'Japanese restaurants, sushi and ramen', ['japanese', 'sushi', 'ramen']),
+  cuisineCategory('indian_restaurant', 'indian', 'Indian restaurants', ['indian']),
+  cuisineCategory('thai_restaurant', 'thai', 'Thai restaurants', ['thai']),
+  cuisineCategory('mediterranean_restaurant', 'mediterranean|greek|lebanese|turkish', 'Mediterranean, Greek and Middle Eastern restaurants', ['mediterranean', 'greek']),
+  cuisineCategory('seafood_restaurant', 'seafood|fish', 'Seafood restaurants', ['seafood']),
+  cuisineCategory('steakhouse', 'steak_house', 'Steakhouses', ['steak']),
+  cuisineCategory('bbq_restaurant', 'barbecue|bbq', 'Barbecue and smokehouse restaurants', ['bbq', 'barbecue']),
+  cuisineCategory('pizza_restaurant', 'pizza', 'Pizzerias', ['pizza']),
+  cuisineCategory('burger_restaurant', 'burger', 'Burger joints', ['burger']),
+  cuisineCategory('tapas_restaurant', 'tapas|spanish', 'Tapas and Spanish restaurants', ['tapas', 'spanish']),
+  {
+    id: 'restaurant',
+    description: 'Any sit-down restaurant',
+    group: 'food',
+    selectors: ['["amenity"="restaurant"]'],
+    aliases: ['dining', 'dinner'],
+  },
+  {
+    id: 'cafe',
+    description: 'Cafes and coffee shops',
+    group: 'food',
+    selectors: ['["amenity"="cafe"]'],
+    aliases: ['coffee'],
+  },
+  {
+    id: 'bakery',
+    description: 'Bakeries and patisseries',
+    group: 'food',
+    selectors: ['["shop"~"bakery|pastry"]'],
+    aliases: ['pastry'],
+  },
+  {
+    id: 'ice_cream',
+    description: 'Ice cream and gelato shops',
+    group: 'food',
+    selectors: ['["amenity"="ice_cream"]', '["shop"="ice_cream"]'],
+    aliases: ['gelato', 'dessert'],
+  },
+  {
+    id: 'food_court',
+    description: 'Food courts and food halls',
+    group: 'food',
+    selectors: ['["amenity"="food_court"]'],
+    aliases: ['food_hall'],
+  },
+
+  // Drinks
+  {
+    id: 'wine_bar',
+    description: 'Wine bars',
+    group: 'drinks',
+    selectors: ['["amenity"="bar"]["bar"="wine"]', '["amenity"="bar"]["drink:wine"~"yes|served"]'],
+    aliases: ['wine'],
+  },
+  {
+    id: 'cocktail_bar',
+    description: 'Cocktail and lounge bars',
+    group: 'drinks',
+    selectors: ['["amenity"="bar"]["cocktails"="yes"]', '["amenity"="bar"]["drink:cocktail"~"yes|served"]'],
+    aliases: ['cocktail', 'lounge'],
+  },
+  {
+    id: 'brewery',
+    description: 'Breweries, brewpubs and taprooms',
+    group: 'drinks',
+    selectors: ['["craft"="brewery"]', '["microbrewery"="yes"]'],
+    aliases: ['brewpub', 'taproom', 'craft_beer'],
+  },
+  {
+    id: 'biergarten',
+    description: 'Beer gardens',
+    group: 'drinks',
+    selectors: ['["amenity"="biergarten"]'],
+    aliases: ['beer_garden'],
+  },
+  {
+    id: 'pub',
+    description: 'Pubs and taverns',
+    group: 'drinks',
+    selectors: ['["amenity"="pub"]'],
+    aliases: ['tavern', 'gastropub'],
+  },
+  {
+    id: 'bar',
+    description: 'Any bar',
+    group: 'drinks',
+    selectors: ['["amenity"="bar"]'],
+  },
+  {
+    id: 'nightclub',
+    description: 'Nightclubs and dance venues',
+    group: 'drinks',
+    selectors: ['["amenity"="nightclub"]'],
+    aliases: ['club', 'dancing'],
+  },
+
+  // Entertainment
+  {
+    id: 'cinema',
+    description: 'Movie theaters',
+    group: 'entertainment',
+    selectors: ['["amenity"="cinema"]'],
+    aliases: ['movie'],
+  },
+  {
+    id: 'theatre',
+    description: 'Theaters and playhouses',
+    group: 'entertainment',
+    selectors: ['["amenity"="theatre"]'],
+    aliases: ['theater'],
+  },
+  {
+    id: 'live_music',
+    description: 'Live music venues and concert halls',
+    group: 'entertainment',
+    selectors: ['["amenity"="music_venue"]', '["amenity"="concert_hall"]', '["live_music"="yes"]'],
+    aliases: ['music_venue', 'concert', 'jazz'],
+  },
+  {
+    id: 'karaoke',
+    description: 'Karaoke bars',
+    group: 'entertainment',
+    selectors: ['["amenity"="karaoke_box"]', '["karaoke"="yes"]'],
+  },
+  {
+    id: 'bowling',
+    description: 'Bowling alleys',
+    group: 'entertainment',
+    selectors: ['["leisure"="bowling_alley"]'],
+  },
+  {
+    id: 'escape_room',
+    description: 'Escape rooms',
+    group: 'entertainment',
+    selectors: ['["leisure"="escape_game"]'],
+  },
+  {
+    id: 'amusement_arcade',
+    description: 'Arcades and game centers',
+    group: 'entertainment',
+    selectors: ['["leisure"="amusement_arcade"]'],
+    aliases: ['arcade'],
+  },
+  {
+    id: 'mini_golf',
+    description: 'Miniature golf courses',
+    group: 'entertainment',
+    selectors: ['["leisure"="miniature_golf"]'],
+    aliases: ['minigolf'],
+  },
+
+  // Culture
+  {
+    id: 'museum',
+    description: 'Museums',
+    group: 'culture',
+    selectors: ['["tourism"="museum"]'],
+  },
+  {
+    id: 'gallery',
+    description: 'Art galleries',
+    group: 'culture',
+    selectors: ['["tourism"="gallery"]', '["shop"="art"]'],
+    aliases: ['art'],
+  },
+  {
+    id: 'arts_centre',
+    description: 'Arts centres and cultural venues',
+    group: 'culture',
+    selectors: ['["amenity"="arts_centre"]'],
+    aliases: ['cultural_center'],
+  },
+  {
+    id: 'viewpoint',
+    description: 'Scenic viewpoints and observation decks',
+    group: 'culture',
+    selectors: ['["tourism"="viewpoint"]'],
+    aliases: ['rooftop', 'scenic'],
+  },
+
+  // Outdoors
+  {
+    id: 'park',
+    description: 'Parks',
+    group: 'outdoors',
+    selectors: ['["leisure"="park"]'],
+  },
+  {
+    id: 'garden',
+    description: 'Botanical and public gardens',
+    group: 'outdoors',
+    selectors: ['["leisure"="garden"]'],
+    aliases: ['botanical'],
+  },
+  {
+    id: 'zoo',
+    description: 'Zoos and aquariums',
+    group: 'outdoors',
+    selectors: ['["tourism"~"zoo|aquarium"]'],
+    aliases: ['aquarium'],
+  },
+];
+
+/**
+ * Category used when a search term does not match anything in the registry
+ */
+export const DEFAULT_OSM_CATEGORY: OSMCategory = {
+  id: 'general',
+  description: 'Restaurants, bars, cafes and pubs',
+  group: 'food',
+  selectors: ['["amenity"~"restaurant|bar|cafe|pub"]'],
+};
+
+const CATEGORIES_BY_ID = new Map(OSM_CATEGORIES.map((c) => [c.id, c]));
+
+/**
+ * Normalizes a free-text term to the registry's snake_case format
+ * @example normalizeCategoryTerm('Wine Bar') // "wine_bar"
+ */
+function normalizeCategoryTerm(term: string): string {
+  return term
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Looks up a category by its exact id (after normalization)
+ *
+ * @param term - Search term, e.g. "wine_bar" or "Wine Bar"
+ * @returns The matching category, or undefined if the term is not in the vocabulary
+ */
+export function getOSMCategory(term: string): OSMCategory | undefined {
+  return CATEGORIES_BY_ID.get(normalizeCategoryTerm(term));
+}
+
+/**
+ * Resolves a free-text search term to the best matching category
+ * Tries an exact id match first, then ids and aliases contained in the term,
+ * and finally falls back to DEFAULT_OSM_CATEGORY.
+ *
+ * @example
+ * ```typescript
+ * resolveOSMCategory('wine_bar').id;          // "wine_bar"
+ * resolveOSMCategory('cozy italian place').id; // "italian_restaurant"
+ * resolveOSMCategory('something else').id;     // "general"
+ * ```
+ */
+export function resolveOSMCategory(term: string): OSMCategory {
+  const normalized = normalizeCategoryTerm(term);
+
+  const exact = CATEGORIES_BY_ID.get(normalized);
+  if (exact) return exact;
+
+  const words = `_${normalized}_`;
+  for (const category of OSM_CATEGORIES) {
+    const candidates = [category.id, ...(category.aliases || [])];
+    if (candidates.some((candidate) => words.includes(`_${candidate}_`))) {
+      return category;
+    }
+  }
+
+  return DEFAULT_OSM_CATEGORY;
+}
+
+/**
+ * Renders the vocabulary as a bullet list for the AI search-term prompt
+ * Grouped by category group so the model can scan it quickly.
+ */
+export function describeCategoriesForPrompt(): string {
+  const groups: OSMCategoryGroup[] = ['food', 'drinks', 'entertainment', 'culture', 'outdoors'];
+
+  return groups
+    .map((group) => {
+      const lines = OSM_CATEGORIES
+        .filter((c) => c.group === group)
+        .map((c) => `  - ${c.id}: ${c.description}`);
+      return `${group.toUpperCase()}:\n${lines.join('\n')}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Checks whether OSM tags satisfy an Overpass tag filter
+ * Supports the filter forms used in this registry: ["key"], ["key"="value"],
+ * ["key"!="value"], ["key"~"regex"] and ["key"!~"regex"].
+ *
+ * @example
+ * ```typescript
+ * matchesSelector('["amenity"="bar"]["drink:wine"~"yes|served"]', { amenity: 'bar', 'drink:wine': 'served' }); // true
+ * ```
+ */
+export function matchesSelector(selector: string, tags: Record<string, string | undefined>): boolean {
+  const clauses = selector.match(/\[[^\]]*\]/g) || [];
+
+  return clauses.every((clause) => {
+    const match = clause.match(/^\["([^"]+)"(?:(!?[=~])"([^"]*)")?\]$/);
+    if (!match) return false;
+
+    const [, key, operator, value] = match;
+    const actual = tags[key];
+
+    switch (operator) {
+      case undefined:
+        return actual !== undefined;
+      case '=':
+        return actual === value;
+      case '!=':
+        return actual !== value;
+      case '~':
+        // Overpass regexes are unanchored, like JS RegExp.test
+        return actual !== undefined && new RegExp(value).test(actual);
+      case '!~':
+        return actual === undefined || !new RegExp(value).test(actual);
+      default:
+        return false;
+    }
+  });
+}
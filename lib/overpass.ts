@@ -5,9 +5,14 @@
  * Respect rate limits!
  */
 
-import { Venue } from '@/types/venue';
+import { Venue, VenueAttributes, SearchCoverage } from '@/types/venue';
 import { retryWithBackoff } from './retry';
 import { overpassCache, CACHE_TTL } from './cache';
+import { resolveOSMCategory, matchesSelector, type OSMCategory } from './osm-categories';
+import { isAlwaysClosed } from './opening-hours';
+import type { SearchArea } from './nominatim';
+import { haversineDistance, destinationPoint, type LatLng } from './geo';
+import { findDuplicateGroups, mergeVenueRecords } from './venue-dedup';
 
 // Define the OSM element interface
 interface OSMElement {
@@ -30,6 +35,17 @@ interface OSMElement {
     phone?: string;
     wikidata?: string; // Critical for linking to images
     opening_hours?: string;
+    wheelchair?: string;
+    outdoor_seating?: string;
+    reservation?: string;
+    takeaway?: string;
+    delivery?: string;
+    internet_access?: string;
+    air_conditioning?: string;
+    smoking?: string;
+    brand?: string;
+    'brand:wikidata'?: string;
+    operator?: string;
     'disused:amenity'?: string;
     demolished?: string;
     ruins?: string;
@@ -48,75 +64,57 @@ interface OverpassResponse {
 }
 
 /**
- * Maps common search terms to Overpass QL amenity/shop types
+ * Venue fields extracted from an OSM element, plus its wikidata ID for enrichment
  */
-function mapQueryToOSMTags(query: string): string {
-  const q = query.toLowerCase();
-  
-  if (q.includes('restaurant') || q.includes('dining')) return '["amenity"="restaurant"]';
-  if (q.includes('bar') || q.includes('pub')) return '["amenity"~"bar|pub"]';
-  if (q.includes('cafe') || q.includes('coffee')) return '["amenity"="cafe"]';
-  if (q.includes('museum')) return '["tourism"="museum"]';
-  if (q.includes('park')) return '["leisure"="park"]';
-  if (q.includes('cinema') || q.includes('movie')) return '["amenity"="cinema"]';
-  if (q.includes('theater')) return '["amenity"="theatre"]';
-  
-  // Default fallback - search widely for amenities
-  return '["amenity"~"restaurant|bar|cafe|pub"]';
-}
+export type OverpassVenue = Partial<Venue> & { wikidata?: string };
 
 /**
- * Searches for venues using Overpass API
- * @param query Search query (e.g., "Italian restaurants")
- * @param lat Latitude
- * @param lng Longitude
- * @param radius Radius in meters
+ * Overpass venues grouped by category id
  */
-export async function searchVenuesOverpass(
-  query: string,
-  lat: number,
-  lng: number,
-  radius: number = 2000
-): Promise<(Partial<Venue> & { wikidata?: string })[]> {
-  // Check cache first
-  const cacheKey = `overpass:${query}:${lat.toFixed(4)}:${lng.toFixed(4)}:${radius}`;
-  const cachedResult = overpassCache.get(cacheKey);
-  if (cachedResult) {
-    return cachedResult;
-  }
+type VenuesByCategory = Record<string, OverpassVenue[]>;
 
-  // Construct Overpass QL
-  // We use [out:json]; to get JSON response
-  // We search for nodes, ways, and relations
-
-  const tagFilter = mapQueryToOSMTags(query);
-  
-  // Custom filter for specific cuisines if mentioned
-  let cuisineFilter = '';
-  if (query.toLowerCase().includes('italian')) cuisineFilter = '["cuisine"~"italian"]';
-  if (query.toLowerCase().includes('mexican')) cuisineFilter = '["cuisine"~"mexican"]';
-  if (query.toLowerCase().includes('chinese')) cuisineFilter = '["cuisine"~"chinese"]';
-  if (query.toLowerCase().includes('pizza')) cuisineFilter = '["cuisine"~"pizza"]';
-  if (query.toLowerCase().includes('burger')) cuisineFilter = '["cuisine"~"burger"]';
-  
-  // Combine filters
-  // Example: node["amenity"="restaurant"]["cuisine"~"italian"](around:radius,lat,lng);
-  const selector = `${tagFilter}${cuisineFilter}`;
-  
-  // Limit radius to max 5km to avoid timeouts
-  const limitedRadius = Math.min(radius, 5000);
+/**
+ * Maximum elements returned per category in a combined query
+ * Each category has its own output statement, so a dense category can't crowd out the others.
+ */
+const RESULTS_PER_CATEGORY = 20;
 
-  // Exclude permanently closed venues in the query
-  // We filter out nodes/ways with disused:amenity tag
-  const ql = `
-    [out:json][timeout:15];
-    (
-      node${selector}(around:${limitedRadius},${lat},${lng})["disused:amenity"!~"."]["demolished"!="yes"]["ruins"!="yes"];
-      way${selector}(around:${limitedRadius},${lat},${lng})["disused:amenity"!~"."]["demolished"!="yes"]["ruins"!="yes"];
-    );
-    out center 20;
-  `;
+/**
+ * Largest radius searched by a single Overpass query (larger ones may time out)
+ */
+const TILE_RADIUS_M = 5000;
+
+/**
+ * Rings of tiles around the center tile at most (2 rings = 19 tiles)
+ * Bounds the number of queries; it also caps the searched radius at
+ * (1.5 * 2 + 0.5) * TILE_RADIUS_M = 17.5 km, and larger requests report that.
+ */
+const MAX_TILE_RINGS = 2;
+
+/**
+ * Number of tile queries run at the same time
+ */
+const TILE_CONCURRENCY = 2;
+
+/**
+ * Neighbourhood size used to measure venue density when ranking
+ */
+const DENSITY_RADIUS_M = 500;
 
+/**
+ * Offsets Overpass adds to way/relation ids to get the derived area id
+ * See https://wiki.openstreetmap.org/wiki/Overpass_API/Overpass_QL#Area
+ */
+const AREA_ID_OFFSET = {
+  way: 2400000000,
+  relation: 3600000000,
+};
+
+/**
+ * Runs an Overpass QL query, trying each server with retry logic
+ * @returns Parsed response, or null if every server failed
+ */
+async function runOverpassQuery(ql: string): Promise<OverpassResponse | null> {
   // Use alternative Overpass servers for better reliability
   const servers = [
     'https://overpass.kumi.systems/api/interpreter',
@@ -129,7 +127,7 @@ export async function searchVenuesOverpass(
   for (const url of servers) {
     try {
       // Wrap each server attempt with retry logic before trying next server
-      const data = await retryWithBackoff(
+      return await retryWithBackoff(
         async () => {
           const response = await fetch(url, {
             method: 'POST',
@@ -154,14 +152,6 @@ export async function searchVenuesOverpass(
           retryableStatusCodes: [429, 500, 502, 503, 504],
         }
       );
-
-      // If we get here, query succeeded
-      const venues = parseOverpassResponse(data);
-
-      // Cache the results for 6 hours
-      overpassCache.set(cacheKey, venues, CACHE_TTL.OVERPASS);
-
-      return venues;
     } catch (error) {
       console.warn(`Overpass server ${url} failed after retries:`, error);
       lastError = error as Error;
@@ -172,7 +162,284 @@ export async function searchVenuesOverpass(
 
   // All servers failed
   console.error('All Overpass servers failed:', lastError);
-  return [];
+  return null;
+}
+
+/**
+ * A circular piece of a larger search, small enough for one Overpass query
+ */
+interface SearchTile {
+  center: LatLng;
+  /** Radius in meters */
+  radius: number;
+}
+
+/**
+ * Result of a (possibly tiled) Overpass venue search
+ */
+export interface OverpassSearchResult {
+  /** All venues found, deduplicated and ranked by relevance and density */
+  venues: OverpassVenue[];
+  /** Venues keyed by search term, in ranked order (a venue may appear under several terms) */
+  venuesByQuery: Record<string, OverpassVenue[]>;
+  /** What was actually searched */
+  coverage: SearchCoverage;
+}
+
+/**
+ * Planned tiles for a search radius
+ * - Up to TILE_RADIUS_M: one query
+ * - Larger: a hexagonal grid of tiles (a center tile plus rings of 6, 12, ...).
+ *   Tiles sqrt(3) * r apart cover the plane, and n rings fully cover a circle of
+ *   (1.5n + 0.5) * r, so the ring count grows with the radius (1 ring covers twice
+ *   the tile radius). Tiles never exceed TILE_RADIUS_M, so past MAX_TILE_RINGS the
+ *   search is capped and effectiveRadius is smaller than the requested radius.
+ */
+function planTiles(center: LatLng, radius: number): { tiles: SearchTile[]; effectiveRadius: number } {
+  if (radius <= TILE_RADIUS_M) {
+    return { tiles: [{ center, radius }], effectiveRadius: radius };
+  }
+
+  const rings = Math.min(MAX_TILE_RINGS, Math.ceil((radius / TILE_RADIUS_M - 0.5) / 1.5));
+  const effectiveRadius = Math.min(radius, (1.5 * rings + 0.5) * TILE_RADIUS_M);
+  const tileRadius = effectiveRadius / (1.5 * rings + 0.5);
+  const spacing = Math.sqrt(3) * tileRadius;
+
+  // Axial hex coordinates (q, r) within `rings` steps of the center
+  const tiles: SearchTile[] = [];
+  for (let q = -rings; q <= rings; q++) {
+    for (let r = Math.max(-rings, -q - rings); r <= Math.min(rings, -q + rings); r++) {
+      const east = spacing * (q + r / 2);
+      const north = spacing * (r * Math.sqrt(3) / 2);
+      const distance = Math.hypot(east, north);
+      const bearing = (Math.atan2(east, north) * 180) / Math.PI;
+      tiles.push({
+        center: distance === 0 ? center : destinationPoint(center, (bearing + 360) % 360, distance),
+        radius: tileRadius,
+      });
+    }
+  }
+
+  return { tiles, effectiveRadius };
+}
+
+/**
+ * Distance from a center point to the farthest corner of an area's bounding box
+ */
+function getAreaExtent(center: LatLng, area: SearchArea): number {
+  const [south, north, west, east] = area.boundingBox;
+  const corners = [
+    { lat: south, lng: west },
+    { lat: south, lng: east },
+    { lat: north, lng: west },
+    { lat: north, lng: east },
+  ];
+  return Math.max(...corners.map((corner) => haversineDistance(center, corner)));
+}
+
+/**
+ * Runs one combined query for a single tile
+ * Results are cached per tile, so overlapping searches can reuse them.
+ *
+ * @returns Venues grouped by category, or null if the query failed
+ */
+async function searchTile(
+  categories: OSMCategory[],
+  tile: SearchTile,
+  area?: SearchArea
+): Promise<VenuesByCategory | null> {
+  const { lat, lng } = tile.center;
+  const radius = Math.round(tile.radius);
+
+  // Check cache first (keyed by the combined category set so aliases share entries)
+  const categoryKey = categories.map((c) => c.id).sort().join('+');
+  const areaKey = area ? `${area.osmType}/${area.osmId}` : 'radius';
+  const cacheKey = `overpass:${categoryKey}:${lat.toFixed(4)}:${lng.toFixed(4)}:${radius}:${areaKey}`;
+  const cachedResult = overpassCache.get(cacheKey);
+  if (cachedResult) {
+    return cachedResult;
+  }
+
+  // Construct Overpass QL
+  // We use [out:json]; to get JSON response
+  // We search for nodes and ways (with their center point)
+
+  // Exclude permanently closed venues in the query
+  // We filter out nodes/ways with disused:amenity tag
+  const exclusions = '["disused:amenity"!~"."]["demolished"!="yes"]["ruins"!="yes"]';
+
+  // Search inside the area (intersected with the tile) when we have one
+  const areaFilter = area ? '(area.searchArea)' : '';
+  const areaStatement = area
+    ? `area(${AREA_ID_OFFSET[area.osmType] + area.osmId})->.searchArea;`
+    : '';
+
+  // One named set per category, each with its own output limit
+  const categorySets = categories
+    .map((category, i) => {
+      const statements = category.selectors
+        .flatMap((selector) => [
+          `node${selector}${areaFilter}(around:${radius},${lat},${lng})${exclusions};`,
+          `way${selector}${areaFilter}(around:${radius},${lat},${lng})${exclusions};`,
+        ])
+        .join('\n      ');
+      return `(
+      ${statements}
+    )->.c${i};
+    .c${i} out center ${RESULTS_PER_CATEGORY};`;
+    })
+    .join('\n    ');
+
+  const ql = `
+    [out:json][timeout:25];
+    ${areaStatement}
+    ${categorySets}
+  `;
+
+  const data = await runOverpassQuery(ql);
+  if (!data) return null;
+
+  const venuesByCategory = splitByCategory(data, categories);
+
+  // Cache the results for 6 hours
+  overpassCache.set(cacheKey, venuesByCategory, CACHE_TTL.OVERPASS);
+
+  return venuesByCategory;
+}
+
+/**
+ * Runs tile queries a few at a time (Overpass allows ~2 concurrent slots per client)
+ */
+async function searchTiles(
+  categories: OSMCategory[],
+  tiles: SearchTile[],
+  area?: SearchArea
+): Promise<(VenuesByCategory | null)[]> {
+  const results: (VenuesByCategory | null)[] = [];
+
+  for (let i = 0; i < tiles.length; i += TILE_CONCURRENCY) {
+    const batch = tiles.slice(i, i + TILE_CONCURRENCY);
+    results.push(...(await Promise.all(batch.map((tile) => searchTile(categories, tile, area)))));
+  }
+
+  return results;
+}
+
+/**
+ * Merges tile results, keeps venues inside the effective radius, resolves
+ * duplicate records of the same place (see venue-dedup), and ranks them
+ * Relevance is the number of requested categories a venue matches; density is the
+ * share of other results within DENSITY_RADIUS_M (busier areas rank higher on ties).
+ */
+function mergeTileResults(
+  tileResults: (VenuesByCategory | null)[],
+  center: LatLng,
+  effectiveRadius: number
+): { venue: OverpassVenue; categoryIds: Set<string> }[] {
+  const merged = new Map<string, { venue: OverpassVenue; categoryIds: Set<string> }>();
+
+  for (const result of tileResults) {
+    for (const [categoryId, venues] of Object.entries(result || {})) {
+      for (const venue of venues) {
+        if (!venue.placeId || !venue.location) continue;
+        if (haversineDistance(center, venue.location) > effectiveRadius) continue;
+
+        const entry = merged.get(venue.placeId) || { venue, categoryIds: new Set<string>() };
+        entry.categoryIds.add(categoryId);
+        merged.set(venue.placeId, entry);
+      }
+    }
+  }
+
+  // The same place is often mapped more than once (node + building way);
+  // merge those records, keeping every category any of them matched
+  const records = Array.from(merged.values());
+  const entries = findDuplicateGroups(records.map(({ venue }) => venue)).map((group) => ({
+    venue: mergeVenueRecords(group.map((i) => records[i].venue)),
+    categoryIds: new Set(group.flatMap((i) => Array.from(records[i].categoryIds))),
+  }));
+  const neighbours = entries.map((entry) =>
+    entries.filter(
+      (other) => other !== entry && haversineDistance(entry.venue.location!, other.venue.location!) <= DENSITY_RADIUS_M
+    ).length
+  );
+  const maxNeighbours = Math.max(1, ...neighbours);
+
+  return entries
+    .map((entry, i) => ({ entry, score: entry.categoryIds.size + neighbours[i] / maxNeighbours }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Searches for venues matching several search terms
+ * For each tile, every category is queried as its own named set (with its own
+ * result limit) in one request, and the results are split back out per search
+ * term by matching each element's tags against the selectors. Large radii are split into tiles (see planTiles).
+ *
+ * @param queries Search terms from the category registry (e.g., ["wine_bar", "italian_restaurant"])
+ * @param lat Latitude
+ * @param lng Longitude
+ * @param radius Radius in meters
+ * @param area Optional boundary (e.g. a neighborhood) to search within; results are
+ *             also kept within the radius, and if the area yields nothing the
+ *             search falls back to the radius alone
+ */
+export async function searchVenuesOverpass(
+  queries: string[],
+  lat: number,
+  lng: number,
+  radius: number = 2000,
+  area?: SearchArea
+): Promise<OverpassSearchResult> {
+  const center = { lat, lng };
+
+  // Resolve each search term against the category registry
+  // Several terms may resolve to the same category (aliases)
+  const categoryByQuery = new Map(queries.map((q) => [q, resolveOSMCategory(q)]));
+  const categories = Array.from(
+    new Map(Array.from(categoryByQuery.values()).map((c) => [c.id, c])).values()
+  );
+
+  // A neighborhood never needs more than its own extent
+  const searchRadius = area ? Math.min(radius, getAreaExtent(center, area)) : radius;
+  let plan = planTiles(center, searchRadius);
+  let mode: SearchCoverage['mode'] = area ? 'area' : 'radius';
+
+  let tileResults = categories.length > 0 ? await searchTiles(categories, plan.tiles, area) : [];
+
+  // Not every boundary has a derived Overpass area, and area queries can fail outright;
+  // either way fall back to the radius (a failed tile counts as an empty one)
+  const foundNothing = tileResults.every(
+    (result) => result === null || Object.values(result).every((venues) => venues.length === 0)
+  );
+  if (area && tileResults.length > 0 && foundNothing) {
+    console.warn(`[OVERPASS] No results (or failed queries) inside ${area.osmType}/${area.osmId}, falling back to radius search`);
+    plan = planTiles(center, radius);
+    mode = 'radius';
+    tileResults = await searchTiles(categories, plan.tiles);
+  }
+
+  const ranked = mergeTileResults(tileResults, center, plan.effectiveRadius);
+
+  return {
+    venues: ranked.map(({ venue }) => venue),
+    venuesByQuery: Object.fromEntries(
+      queries.map((q) => [
+        q,
+        ranked
+          .filter(({ categoryIds }) => categoryIds.has(categoryByQuery.get(q)!.id))
+          .map(({ venue }) => venue),
+      ])
+    ),
+    coverage: {
+      requestedRadius: radius,
+      effectiveRadius: Math.round(plan.effectiveRadius),
+      tiles: plan.tiles.length,
+      partial: tileResults.some((result) => result === null),
+      mode,
+    },
+  };
 }
 
 /**
@@ -186,40 +453,148 @@ function isPermanentlyClosed(tags?: OSMElement['tags']): boolean {
   if (tags.demolished === 'yes') return true;
   if (tags.ruins === 'yes') return true;
 
-  // Check opening_hours for permanent closure indicators
-  const hours = tags.opening_hours?.toLowerCase();
-  if (hours) {
-    if (hours.includes('closed') && !hours.includes('mo-')) return true; // "closed" without day schedule
-    if (hours === 'off') return true;
-  }
+  // Check opening_hours for schedules that never open ("off", "Mo-Su closed")
+  if (tags.opening_hours && isAlwaysClosed(tags.opening_hours)) return true;
 
   return false;
 }
 
 /**
- * Parses Overpass API response into venue objects
+ * Returns true/false for OSM yes/no style values, undefined otherwise
+ */
+function parseYesNo(value?: string): boolean | undefined {
+  if (!value) return undefined;
+  const v = value.toLowerCase();
+  if (v === 'no') return false;
+  if (v === 'yes' || v === 'wlan' || v === 'free' || v === 'customers') return true;
+  return undefined;
+}
+
+/**
+ * Returns the value if it is one of the allowed options, undefined otherwise
+ */
+function pickEnum<T extends string>(value: string | undefined, allowed: readonly T[]): T | undefined {
+  const v = value?.toLowerCase() as T | undefined;
+  return v && allowed.includes(v) ? v : undefined;
+}
+
+/**
+ * Builds structured venue attributes from raw OSM tags
+ * Unknown or malformed values are dropped rather than guessed
  */
-function parseOverpassResponse(data: OverpassResponse): (Partial<Venue> & { wikidata?: string })[] {
-  return data.elements
+function parseVenueAttributes(tags: NonNullable<OSMElement['tags']>): VenueAttributes {
+  const attributes: VenueAttributes = {};
+
+  const cuisine = tags.cuisine
+    ?.split(';')
+    .map((c) => c.trim().replace(/_/g, ' '))
+    .filter((c) => c.length > 0);
+  if (cuisine?.length) attributes.cuisine = cuisine;
+
+  // Only keep http(s) links; OSM sometimes omits the scheme
+  const website = (tags.website || tags['contact:website'])?.trim();
+  if (website && /^https?:\/\//i.test(website)) {
+    attributes.website = website;
+  } else if (website && /^[\w-]+(\.[\w-]+)+/.test(website)) {
+    attributes.website = `https://${website}`;
+  }
+
+  const phone = tags.phone || tags['contact:phone'];
+  if (phone) attributes.phone = phone;
+
+  if (tags.opening_hours) attributes.openingHours = tags.opening_hours;
+
+  attributes.wheelchair = pickEnum(tags.wheelchair, ['yes', 'limited', 'no'] as const);
+  attributes.outdoorSeating = parseYesNo(tags.outdoor_seating);
+  attributes.reservation = pickEnum(tags.reservation, ['yes', 'no', 'required', 'recommended'] as const);
+  attributes.takeaway = pickEnum(tags.takeaway, ['yes', 'no', 'only'] as const);
+  attributes.delivery = parseYesNo(tags.delivery);
+  attributes.internetAccess = parseYesNo(tags.internet_access);
+  attributes.airConditioning = parseYesNo(tags.air_conditioning);
+  if (tags.smoking) attributes.smoking = tags.smoking;
+
+  // Brand tags identify chains (see ownership.ts)
+  if (tags.brand) attributes.brand = tags.brand;
+  if (tags['brand:wikidata']) attributes.brandWikidata = tags['brand:wikidata'];
+  if (tags.operator) attributes.operator = tags.operator;
+
+  // Collect all diet:* tags (diet:vegan, diet:gluten_free, ...)
+  const diet: Record<string, string> = {};
+  for (const [key, value] of Object.entries(tags)) {
+    if (key.startsWith('diet:') && value) {
+      diet[key.slice('diet:'.length)] = value.toLowerCase();
+    }
+  }
+  if (Object.keys(diet).length > 0) attributes.diet = diet;
+
+  // Drop keys that resolved to undefined to keep payloads small
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined)
+  ) as VenueAttributes;
+}
+
+/**
+ * Converts a single OSM element into venue fields
+ */
+function parseOverpassElement(el: OSMElement): OverpassVenue {
+  const lat = el.lat || el.center?.lat || 0;
+  const lng = el.lon || el.center?.lon || 0;
+
+  // Construct address
+  const street = el.tags?.['addr:street'] || '';
+  const number = el.tags?.['addr:housenumber'] || '';
+  const city = el.tags?.['addr:city'] || '';
+  const address = `${number} ${street}, ${city}`.trim().replace(/^,/, '').trim() || 'Address not available';
+
+  return {
+    name: el.tags?.name || 'Unknown Venue',
+    address,
+    placeId: `osm-${el.type}-${el.id}`,
+    location: { lat, lng },
+    attributes: parseVenueAttributes(el.tags || {}),
+    // Pass wikidata ID for enrichment later
+    wikidata: el.tags?.wikidata
+  };
+}
+
+/**
+ * Parses a combined Overpass response and groups venues by the categories
+ * whose selectors match each element's tags
+ * An element matching several categories is output once per category set; it is only parsed once.
+ */
+function splitByCategory(data: OverpassResponse, categories: OSMCategory[]): VenuesByCategory {
+  const result: VenuesByCategory = Object.fromEntries(categories.map((c) => [c.id, []]));
+  const seen = new Set<string>();
+  let unmatched = 0;
+
+  data.elements
+    .filter(el => {
+      const key = `${el.type}/${el.id}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
     .filter(el => el.tags && el.tags.name) // Must have a name
     .filter(el => !isPermanentlyClosed(el.tags)) // Filter out permanently closed venues
-    .map(el => {
-      const lat = el.lat || el.center?.lat || 0;
-      const lng = el.lon || el.center?.lon || 0;
-
-      // Construct address
-      const street = el.tags?.['addr:street'] || '';
-      const number = el.tags?.['addr:housenumber'] || '';
-      const city = el.tags?.['addr:city'] || '';
-      const address = `${number} ${street}, ${city}`.trim().replace(/^,/, '').trim() || 'Address not available';
-
-      return {
-        name: el.tags?.name || 'Unknown Venue',
-        address,
-        placeId: `osm-${el.type}-${el.id}`,
-        location: { lat, lng },
-        // Pass wikidata ID for enrichment later
-        wikidata: el.tags?.wikidata
-      };
+    .forEach(el => {
+      const matching = categories.filter(c =>
+        c.selectors.some(selector => matchesSelector(selector, el.tags!))
+      );
+
+      // Every element came from one of the selectors, so this only happens if a
+      // selector uses syntax the matcher doesn't understand; we can't tell which
+      // category it belongs to, so drop it rather than misfile it
+      if (matching.length === 0) {
+        unmatched++;
+        return;
+      }
+      const venue = parseOverpassElement(el);
+      matching.forEach(c => result[c.id].push(venue));
     });
+
+  if (unmatched > 0) {
+    console.warn(`[OVERPASS] Dropped ${unmatched} venue(s) that matched no category selector`);
+  }
+
+  return result;
 }
@@ -0,0 +1,58 @@
+/**
+ * Chain vs Independent Detection
+ * Classifies venues from OSM brand tags. Chains are well covered in OSM thanks to
+ * the name-suggestion-index, which adds `brand` and `brand:wikidata` to branded
+ * venues, so a venue without them is treated as independent.
+ * Tag reference: https://wiki.openstreetmap.org/wiki/Key:brand
+ *
+ * `operator` alone is ambiguous (it may be a chain's parent company or the
+ * owner's own business), so it only counts against independence when it
+ * names something other than the venue itself.
+ */
+
+import type { VenueAttributes, VenueOwnership } from '@/types/venue';
+import { normalizeVenueName } from './venue-dedup';
+
+/**
+ * Classifies a venue as part of a chain or independently run
+ *
+ * @example
+ * ```typescript
+ * classifyOwnership('Starbucks', { brand: 'Starbucks' });         // "chain"
+ * classifyOwnership("Joe's Pizza", {});                           // "independent"
+ * classifyOwnership("Joe's Pizza", { operator: "Joe's Pizza" });  // "independent"
+ * classifyOwnership('Harbor Grill', { operator: 'Landry’s Inc' }); // "unknown"
+ * ```
+ */
+export function classifyOwnership(name: string, attributes?: VenueAttributes): VenueOwnership {
+  if (attributes?.brand || attributes?.brandWikidata) return 'chain';
+
+  if (attributes?.operator) {
+    const venueName = normalizeVenueName(name);
+    const operator = normalizeVenueName(attributes.operator);
+    if (!venueName.includes(operator) && !operator.includes(venueName)) return 'unknown';
+  }
+
+  return 'independent';
+}
+
+/**
+ * Sort key for preferring independent venues (lower sorts first)
+ */
+export function getOwnershipRank(ownership?: VenueOwnership): number {
+  if (ownership === 'independent') return 0;
+  if (ownership === 'chain') return 2;
+  return 1;
+}
+
+/**
+ * Describes a venue's ownership for the recommendations prompt
+ * @example describeOwnership('chain', { brand: 'Starbucks' }); // "Chain (Starbucks)"
+ */
+export function describeOwnership(ownership?: VenueOwnership, attributes?: VenueAttributes): string {
+  if (ownership === 'chain') {
+    return attributes?.brand ? `Chain (${attributes.brand})` : 'Chain';
+  }
+  if (ownership === 'independent') return 'Independent';
+  return attributes?.operator ? `Unknown (operated by ${attributes.operator})` : 'Unknown';
+}
@@ -0,0 +1,179 @@
+/**
+ * Prompt Registry
+ * Named, versioned prompt templates with typed variables (see types/prompts.ts).
+ * Each session is assigned a version by a stable hash, so A/B variants can be
+ * compared: the version is reported in the "ai.promptVersion" field of API responses
+ * and in the AI usage records.
+ *
+ * To try a change: add a new version with a weight instead of editing a released one.
+ * PROMPT_VERSION_<NAME> (e.g. PROMPT_VERSION_RECOMMENDATIONS=v1) pins every session to one version.
+ */
+
+import { wrapUntrusted, UNTRUSTED_CONTENT_NOTICE } from './prompt-safety';
+import type { PromptName, PromptTemplate, PromptVariables, RenderedPrompt } from '@/types/prompts';
+
+/**
+ * Every version of every prompt
+ */
+const PROMPT_TEMPLATES: { [N in PromptName]: PromptTemplate<N>[] } = {
+  search_queries: [
+    {
+      name: 'search_queries',
+      version: 'v1',
+      weight: 1,
+      render: ({ userRequest, categories }) => `You are a venue search expert. Pick 3-5 OpenStreetMap venue categories for finding perfect venues.
+
+${UNTRUSTED_CONTENT_NOTICE}
+
+${wrapUntrusted('USER_REQUEST', userRequest)}
+
+Choose ONLY from this list of supported venue categories (use the exact id before the colon):
+${categories}
+
+Examples:
+- For romantic dates: ["fine_dining", "wine_bar", "french_restaurant"]
+- For team outings: ["pub", "brewery", "bbq_restaurant"]
+- For casual hangouts: ["cafe", "pizza_restaurant", "ice_cream"]
+- For upscale events: ["fine_dining", "cocktail_bar", "steakhouse"]
+
+Return ONLY a valid JSON array of 3-5 category ids from the list above.
+Format: ["category_id_1", "category_id_2", "category_id_3"]`,
+    },
+  ],
+  recommendations: [
+    {
+      name: 'recommendations',
+      version: 'v1',
+      weight: 1,
+      render: ({ userContext, venueData }) => `You are an expert event planner. Analyze these venues and recommend the BEST matches for the user's specific occasion and preferences.
+
+${UNTRUSTED_CONTENT_NOTICE}
+
+USER CONTEXT:
+${wrapUntrusted('USER_CONTEXT', userContext)}
+
+AVAILABLE VENUES:
+${wrapUntrusted('VENUE_DATA', venueData)}
+
+The "features" of each venue come from OpenStreetMap tags (cuisine, opening hours, accessibility,
+outdoor seating, reservation policy, diet:* tags such as diet:vegan=yes). A missing feature means
+UNKNOWN, not absent. Base your analysis on these facts and do not invent features that are not listed.
+"openAtPlannedTime" is evaluated from the opening hours: "open" (open for the whole visit),
+"closes_early" (closes before the visit ends - mention this as a con) or "unknown" (hours not available).
+"dietarySupport" states what OpenStreetMap confirms for the user's dietary restrictions. Only claim a venue
+caters to a restriction when it is confirmed there (e.g. "Vegan options confirmed by OpenStreetMap"); when
+there is no data, say the user should check with the venue instead of guessing.
+"distanceFromSearchCenter" is the straight-line distance and direction from the location the user searched.
+When two venues suit the occasion equally well, prefer the closer one; mention a long distance as a con.
+"ownership" says whether OpenStreetMap tags the venue with a chain brand. If the user prefers independent
+venues, score chains noticeably lower (list being a chain as a con) and mention independence as a pro.
+
+TASK: Analyze each venue and provide:
+1. **matchScore** (0-100): How well this venue matches the user's specific needs
+   - Consider: occasion appropriateness, budget fit, atmosphere match, dietary compatibility, distance
+   - 90-100: Perfect match
+   - 70-89: Great match with minor compromises
+   - 50-69: Good option but notable limitations
+   - Below 50: Poor match
+
+2. **aiReasoning** (2-3 sentences): Explain WHY this venue works for THIS specific occasion
+   - Be specific to the user's occasion and preferences
+   - Reference the venue's actual features (from "features") and atmosphere
+   - Do NOT mention ratings or review scores
+
+3. **pros** (2-4 items): Specific advantages for THIS occasion
+   - Focus on what makes it great for their needs
+   - Be concrete and actionable
+
+4. **cons** (1-2 items): Honest potential drawbacks
+   - Practical considerations (reservations, parking, etc.)
+   - Be helpful, not overly negative
+
+CRITICAL: Return ONLY valid JSON. No markdown, no explanations, just the JSON array.
+Format:
+[
+  {
+    "venueId": "The venue's exact \"id\" from the list (e.g. v0k3j9x)",
+    "matchScore": 95,
+    "aiReasoning": "This venue is perfect because...",
+    "pros": ["Specific advantage 1", "Specific advantage 2", "Specific advantage 3"],
+    "cons": ["Practical consideration"]
+  }
+]
+
+Return TOP 5 recommendations ONLY, sorted by matchScore (highest first), each for a different venue.
+Identify venues ONLY by their "id" - never by name.`,
+    },
+  ],
+};
+
+/**
+ * Maps a session to a number in [0, 1), independently for each prompt
+ * (FNV-1a hash with a murmur3 finalizer, so similar session IDs spread evenly)
+ *
+ * @example getPromptBucket('recommendations', '3f0c7a9e-...'); // 0.4172
+ */
+export function getPromptBucket(name: PromptName, sessionId: string): number {
+  const key = `${name}:${sessionId}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Picks the version of a prompt for a session
+ * The same session always gets the same version while the weights stay the same.
+ */
+function selectTemplate<N extends PromptName>(name: N, sessionId: string): PromptTemplate<N> {
+  const templates: PromptTemplate<N>[] = PROMPT_TEMPLATES[name];
+
+  const pinned = process.env[`PROMPT_VERSION_${name.toUpperCase()}`];
+  const pinnedTemplate = pinned && templates.find((t) => t.version === pinned);
+  if (pinnedTemplate) return pinnedTemplate;
+
+  const active = templates.filter((t) => t.weight > 0);
+  const totalWeight = active.reduce((sum, t) => sum + t.weight, 0);
+  let point = getPromptBucket(name, sessionId) * totalWeight;
+
+  for (const template of active) {
+    point -= template.weight;
+    if (point < 0) return template;
+  }
+  return active[active.length - 1] ?? templates[templates.length - 1];
+}
+
+/**
+ * Renders the session's version of a prompt
+ *
+ * @param name - Registered prompt name
+ * @param variables - Sanitized values for the prompt's placeholders
+ * @param sessionId - A/B bucketing key (browser session ID, or the client IP)
+ *
+ * @example
+ * ```typescript
+ * const { text, version } = renderPrompt('search_queries', { userRequest, categories }, sessionId);
+ * version; // "search_queries@v1"
+ * ```
+ */
+export function renderPrompt<N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+  sessionId: string
+): RenderedPrompt {
+  const template = selectTemplate(name, sessionId);
+  return { text: template.render(variables), version: `${name}@${template.version}` };
+}
+
+/**
+ * Returns the A/B bucketing key for a request
+ * Uses the browser's session ID (x-session-id header) when it looks valid, otherwise the IP.
+ */
+export function getPromptSessionId(sessionHeader: string | string[] | undefined, ip: string): string {
+  const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+  return sessionId && /^[A-Za-z0-9-]{8,64}$/.test(sessionId) ? sessionId : `ip:${ip}`;
+}
@@ -0,0 +1,307 @@
+/**
+ * Rule-Based Venue Ranking
+ * Deterministic scorer used when the AI is unavailable, and as a baseline to
+ * compare AI rankings against. It only uses data we actually have (OSM tags,
+ * distance, opening hours); the placeholder rating and price level are ignored.
+ *
+ * Points per factor (100 in total):
+ * - occasion 25: venue category vs the occasion
+ * - distance 20: full within 800 m, none beyond 16 km
+ * - budget 15: price tier implied by the category vs the budget
+ * - dietary 15: diet:* tags vs the user's restrictions
+ * - opening hours 15: open for the planned visit
+ * - completeness 10: how much OpenStreetMap knows about the venue
+ * Chains lose 10 points when the user prefers independent venues.
+ */
+
+import type { Venue } from '@/types/venue';
+import type { UserPreferences } from '@/types/user-preferences';
+import type { RankedVenue, RankingFactor } from '@/types/ranking';
+import { DIETARY_LABELS, isDietaryRestriction } from './dietary';
+import { formatDistance, toCompassDirection } from './geo';
+
+const MAX_POINTS: Record<Exclude<RankingFactor, 'ownership'>, number> = {
+  occasion: 25,
+  distance: 20,
+  budget: 15,
+  dietary: 15,
+  openingHours: 15,
+  completeness: 10,
+};
+
+const CHAIN_PENALTY = 10;
+
+/** Distances with full points, and with none */
+const NEARBY_METERS = 800;
+const FAR_METERS = 16000;
+
+/**
+ * Categories that suit (or clash with) a kind of occasion
+ */
+interface OccasionProfile {
+  pattern: RegExp;
+  label: string;
+  suits: string[];
+  avoid: string[];
+}
+
+const OCCASION_PROFILES: OccasionProfile[] = [
+  {
+    pattern: /date|romantic|anniversary|valentine|proposal/i,
+    label: 'a date',
+    suits: ['fine_dining', 'wine_bar', 'cocktail_bar', 'french_restaurant', 'italian_restaurant', 'tapas_restaurant', 'japanese_restaurant', 'theatre', 'live_music', 'viewpoint'],
+    avoid: ['food_court', 'amusement_arcade', 'burger_restaurant'],
+  },
+  {
+    pattern: /client|business|meeting|interview|networking/i,
+    label: 'a business meeting',
+    suits: ['fine_dining', 'restaurant', 'cafe', 'steakhouse', 'wine_bar', 'french_restaurant', 'italian_restaurant'],
+    avoid: ['nightclub', 'karaoke', 'amusement_arcade', 'food_court', 'bowling'],
+  },
+  {
+    pattern: /team|colleague|coworker|office|work/i,
+    label: 'a team outing',
+    suits: ['pub', 'brewery', 'biergarten', 'bowling', 'escape_room', 'karaoke', 'bbq_restaurant', 'tapas_restaurant', 'pizza_restaurant'],
+    avoid: ['nightclub'],
+  },
+  {
+    pattern: /birthday|celebrat|party|graduation/i,
+    label: 'a celebration',
+    suits: ['cocktail_bar', 'bar', 'karaoke', 'bowling', 'nightclub', 'live_music', 'tapas_restaurant', 'steakhouse', 'fine_dining'],
+    avoid: [],
+  },
+  {
+    pattern: /family|kid|child/i,
+    label: 'a family outing',
+    suits: ['pizza_restaurant', 'ice_cream', 'mini_golf', 'bowling', 'cinema', 'amusement_arcade', 'zoo', 'park', 'museum'],
+    avoid: ['nightclub', 'cocktail_bar', 'wine_bar', 'pub'],
+  },
+  {
+    pattern: /friend|casual|hangout|catch.?up|brunch|coffee/i,
+    label: 'a casual meetup',
+    suits: ['cafe', 'pub', 'bar', 'pizza_restaurant', 'brewery', 'bakery', 'burger_restaurant', 'biergarten'],
+    avoid: [],
+  },
+];
+
+/**
+ * Price tier implied by a category (OSM has no reliable price data)
+ */
+const LOW_PRICE_CATEGORIES = ['burger_restaurant', 'pizza_restaurant', 'cafe', 'bakery', 'ice_cream', 'food_court', 'biergarten'];
+const HIGH_PRICE_CATEGORIES = ['fine_dining', 'steakhouse', 'cocktail_bar'];
+
+type PriceTier = 'low' | 'high' | 'unknown';
+
+function getPriceTier(venue: Venue): PriceTier {
+  const categories = venue.matchedQueries || [];
+  if (categories.some((c) => HIGH_PRICE_CATEGORIES.includes(c))) return 'high';
+  if (venue.attributes?.takeaway === 'only') return 'low';
+  if (categories.length > 0 && categories.every((c) => LOW_PRICE_CATEGORIES.includes(c))) return 'low';
+  return 'unknown';
+}
+
+/**
+ * A pro or con with the points behind it, so the strongest are listed first
+ */
+interface Note {
+  text: string;
+  weight: number;
+}
+
+/**
+ * Builds a factor scorer's result
+ */
+function factor(points: number, pros: Note[] = [], cons: Note[] = []) {
+  return { points, pros, cons };
+}
+
+function scoreOccasion(venue: Venue, occasion: string) {
+  const max = MAX_POINTS.occasion;
+  const profile = OCCASION_PROFILES.find((p) => p.pattern.test(occasion));
+  const categories = venue.matchedQueries || [];
+
+  // Unrecognized occasion, or nothing known about the category: neutral
+  if (!profile || categories.length === 0) return factor(max * 0.6);
+
+  if (categories.some((c) => profile.suits.includes(c))) {
+    return factor(max, [{ text: `A good fit for ${profile.label}`, weight: max }]);
+  }
+  if (categories.some((c) => profile.avoid.includes(c))) {
+    return factor(max * 0.2, [], [{ text: `Not a typical choice for ${profile.label}`, weight: max }]);
+  }
+  return factor(max * 0.6);
+}
+
+function scoreDistance(venue: Venue, preferences: UserPreferences) {
+  const max = MAX_POINTS.distance;
+  if (venue.distance === undefined) return factor(max / 2);
+
+  const share = 1 - (venue.distance - NEARBY_METERS) / (FAR_METERS - NEARBY_METERS);
+  const points = max * Math.min(1, Math.max(0, share));
+  const direction = venue.bearing !== undefined ? ` ${toCompassDirection(venue.bearing)}` : '';
+  const described = `${formatDistance(venue.distance, preferences.locale?.units)}${direction}`;
+
+  if (venue.distance <= NEARBY_METERS * 2) {
+    return factor(points, [{ text: `Close by: ${described} of your search location`, weight: points }]);
+  }
+  if (venue.distance >= FAR_METERS / 2) {
+    return factor(points, [], [{ text: `${described} away from your search location`, weight: max - points }]);
+  }
+  return factor(points);
+}
+
+function scoreBudget(venue: Venue, budget: UserPreferences['budget']) {
+  const max = MAX_POINTS.budget;
+  if (budget === 'any') return factor(max);
+
+  const tier = getPriceTier(venue);
+  if (tier === 'unknown') return factor(max * 0.6);
+
+  if (tier === budget) {
+    const text = tier === 'low' ? 'Usually budget-friendly' : 'An upscale choice';
+    return factor(max, [{ text, weight: max }]);
+  }
+  if (tier === 'high' && budget === 'low') {
+    return factor(0, [], [{ text: 'Likely above your budget', weight: max }]);
+  }
+  if (tier === 'high') {
+    return factor(max * 0.4, [], [{ text: 'May be pricier than a moderate budget', weight: max * 0.6 }]);
+  }
+  // Low-priced venue for a medium or high budget
+  return factor(budget === 'medium' ? max * 0.8 : max * 0.5);
+}
+
+function scoreDietary(venue: Venue) {
+  const max = MAX_POINTS.dietary;
+  // Skip keys we have no label for (venues come from the client)
+  const statuses = Object.entries(venue.dietaryStatus || {}).filter(([restriction]) =>
+    isDietaryRestriction(restriction)
+  );
+  if (statuses.length === 0) return factor(max);
+
+  const pros: Note[] = [];
+  const cons: Note[] = [];
+  let points = 0;
+  const share = max / statuses.length;
+
+  for (const [restriction, status] of statuses) {
+    const label = DIETARY_LABELS[restriction as keyof typeof DIETARY_LABELS];
+    if (status === 'confirmed' || status === 'only') {
+      points += share;
+      pros.push({ text: `${label} options confirmed by OpenStreetMap`, weight: share });
+    } else if (status === 'unknown') {
+      points += share / 3;
+      cons.push({ text: `Check ${label.toLowerCase()} options with the venue`, weight: share / 2 });
+    } else {
+      cons.push({ text: `No ${label.toLowerCase()} options (per OpenStreetMap)`, weight: share });
+    }
+  }
+
+  return factor(points, pros, cons);
+}
+
+function scoreOpeningHours(venue: Venue, preferences: UserPreferences) {
+  const max = MAX_POINTS.openingHours;
+  const hasPlannedTime = !!(preferences.plannedDate && preferences.plannedTime);
+
+  if (!hasPlannedTime) {
+    return factor(venue.attributes?.openingHours ? max : max * 0.7);
+  }
+
+  switch (venue.openingStatus) {
+    case 'open':
+      return factor(max, [{ text: 'Open for your whole visit', weight: max }]);
+    case 'closes_early':
+      return factor(max * 0.2, [], [{ text: 'Closes before your visit ends', weight: max }]);
+    case 'closed':
+      return factor(0, [], [{ text: 'Closed at your planned time', weight: max }]);
+    default:
+      return factor(max * 0.5, [], [{ text: 'Opening hours unknown; check before you go', weight: max / 3 }]);
+  }
+}
+
+function scoreCompleteness(venue: Venue) {
+  const max = MAX_POINTS.completeness;
+  const attributes = venue.attributes || {};
+  const known = [
+    !!attributes.openingHours,
+    !!(attributes.website || attributes.phone),
+    !!attributes.cuisine?.length || !(venue.matchedQueries || []).some((c) => c.includes('restaurant')),
+    !!attributes.wheelchair,
+    venue.photos.length > 0 || venue.reviews.length > 0,
+  ];
+  const points = (max * known.filter(Boolean).length) / known.length;
+
+  return points < max / 2
+    ? factor(points, [], [{ text: 'Limited details on OpenStreetMap', weight: (max - points) / 2 }])
+    : factor(points);
+}
+
+function scoreOwnership(venue: Venue, preferences: UserPreferences) {
+  if (!preferences.preferIndependent) return factor(0);
+
+  if (venue.ownership === 'independent') {
+    return factor(0, [{ text: 'Independent, locally run', weight: CHAIN_PENALTY }]);
+  }
+  if (venue.ownership === 'chain') {
+    const brand = venue.attributes?.brand;
+    return factor(-CHAIN_PENALTY, [], [{ text: brand ? `Part of the ${brand} chain` : 'Part of a chain', weight: CHAIN_PENALTY }]);
+  }
+  return factor(0);
+}
+
+/**
+ * Scores one venue
+ */
+export function scoreVenue(venue: Venue, preferences: UserPreferences): RankedVenue {
+  const results: Record<RankingFactor, ReturnType<typeof factor>> = {
+    occasion: scoreOccasion(venue, preferences.occasion || ''),
+    distance: scoreDistance(venue, preferences),
+    budget: scoreBudget(venue, preferences.budget || 'any'),
+    dietary: scoreDietary(venue),
+    openingHours: scoreOpeningHours(venue, preferences),
+    completeness: scoreCompleteness(venue),
+    ownership: scoreOwnership(venue, preferences),
+  };
+
+  const breakdown = Object.fromEntries(
+    Object.entries(results).map(([name, result]) => [name, Math.round(result.points * 10) / 10])
+  ) as Record<RankingFactor, number>;
+  const total = Object.values(results).reduce((sum, result) => sum + result.points, 0);
+  const score = Math.max(0, Math.min(100, Math.round(total)));
+
+  const byWeight = (a: Note, b: Note) => b.weight - a.weight;
+  const pros = Object.values(results).flatMap((r) => r.pros).sort(byWeight).map((n) => n.text);
+  const cons = Object.values(results).flatMap((r) => r.cons).sort(byWeight).map((n) => n.text);
+
+  if (pros.length === 0) pros.push('Matches your search area and categories');
+
+  const strengths = pros.slice(0, 2).map((p) => p.charAt(0).toLowerCase() + p.slice(1));
+  const reasoning =
+    `Scored ${score}/100 by rule-based matching on occasion, distance, budget, dietary tags and opening hours ` +
+    `(no AI analysis). Strongest points: ${strengths.join('; ')}.`;
+
+  return { venue, score, breakdown, pros: pros.slice(0, 4), cons: cons.slice(0, 2), reasoning };
+}
+
+/**
+ * Scores and sorts venues, best first
+ * Ties go to the closer venue, then alphabetically, so the order is stable.
+ *
+ * @example
+ * ```typescript
+ * const [best] = rankVenues(venues, preferences);
+ * best.score;  // 82
+ * best.pros;   // ["A good fit for a date", "Open for your whole visit", ...]
+ * ```
+ */
+export function rankVenues(venues: Venue[], preferences: UserPreferences): RankedVenue[] {
+  return venues
+    .map((venue) => scoreVenue(venue, preferences))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.venue.distance ?? Infinity) - (b.venue.distance ?? Infinity) ||
+        a.venue.name.localeCompare(b.venue.name)
+    );
+}
@@ -6,19 +6,37 @@
  * - Per-IP tracking
  * - Automatic cleanup of old entries
  * - Configurable limits per route
+ * - Daily quotas for metered resources (AI tokens), reset at midnight UTC
  */
 
-import { RateLimitResult, RateLimitEntry } from '@/types/rate-limit';
+import { RateLimitResult, RateLimitEntry, QuotaEntry } from '@/types/rate-limit';
+
+/**
+ * Current UTC day, e.g. "2025-06-01"
+ */
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Timestamp of the next midnight UTC
+ */
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
 
 /**
  * Sliding Window Rate Limiter
  */
 class RateLimiter {
   private store: Map<string, RateLimitEntry>;
+  private quotas: Map<string, QuotaEntry>;
   private cleanupInterval: NodeJS.Timeout | null;
 
   constructor() {
     this.store = new Map();
+    this.quotas = new Map();
     this.cleanupInterval = null;
 
     // Start automatic cleanup every 60 seconds
@@ -74,12 +92,58 @@ class RateLimiter {
     };
   }
 
+  /**
+   * Check whether a daily quota has anything left, without using any of it
+   * Usage is added afterwards with consumeQuota, once the real amount is known
+   * (so a request may overshoot the quota once before being refused).
+   * @param identifier - Unique identifier (e.g., "ai-tokens:ip:127.0.0.1")
+   * @param limit - Amount allowed per UTC day
+   * @returns Rate limit result (resets at midnight UTC)
+   */
+  checkQuota(identifier: string, limit: number): RateLimitResult {
+    const now = Date.now();
+    const used = this.getQuotaUsage(identifier);
+    const allowed = used < limit;
+    const resetTime = nextUtcMidnight(now);
+    const retryAfter = allowed ? undefined : Math.ceil((resetTime - now) / 1000);
+
+    if (!allowed) {
+      console.warn(`[RATE LIMIT] ${identifier} used its daily quota (${used}/${limit}). Retry after ${retryAfter}s`);
+    }
+
+    return {
+      allowed,
+      remaining: Math.max(0, limit - used),
+      resetTime,
+      retryAfter,
+    };
+  }
+
+  /**
+   * Add usage to a daily quota
+   */
+  consumeQuota(identifier: string, amount: number): void {
+    const day = utcDay(Date.now());
+    const entry = this.quotas.get(identifier);
+    const used = entry?.day === day ? entry.used : 0;
+    this.quotas.set(identifier, { day, used: used + amount });
+  }
+
+  /**
+   * Amount of a daily quota used today
+   */
+  getQuotaUsage(identifier: string): number {
+    const entry = this.quotas.get(identifier);
+    return entry?.day === utcDay(Date.now()) ? entry.used : 0;
+  }
+
   /**
    * Reset rate limit for a specific identifier
    * Useful for testing or manual resets
    */
   reset(identifier: string): void {
     this.store.delete(identifier);
+    this.quotas.delete(identifier);
     console.log(`[RATE LIMIT] Reset: ${identifier}`);
   }
 
@@ -109,6 +173,15 @@ class RateLimiter {
       }
     }
 
+    // Quotas from previous days no longer count
+    const today = utcDay(now);
+    for (const [identifier, entry] of this.quotas.entries()) {
+      if (entry.day !== today) {
+        this.quotas.delete(identifier);
+        cleanedCount++;
+      }
+    }
+
     if (cleanedCount > 0) {
       console.log(`[RATE LIMIT] Cleaned up ${cleanedCount} expired entries`);
     }
@@ -0,0 +1,186 @@
+/**
+ * Per-Provider Request Scheduler
+ *
+ * Serializes calls to a rate-limited upstream API with:
+ * - A FIFO queue: requests start in arrival order, at most one every minIntervalMs
+ * - Single-flight coalescing: identical keys share one upstream request
+ * - A queue-depth limit: callers get a SchedulerQueueFullError instead of waiting forever
+ * - A time limit per request: the task's AbortSignal fires and the queue moves on,
+ *   so one hung upstream call can't stall the queue or overlap the next one
+ *
+ * State is per server instance, like the caches and the rate limiter.
+ */
+
+import type { RequestSchedulerConfig, RequestSchedulerStats } from '@/types/request-scheduler';
+
+/**
+ * Thrown when a provider's queue is full
+ * API routes turn this into a 503 with a Retry-After header.
+ */
+export class SchedulerQueueFullError extends Error {
+  readonly provider: string;
+  /** Seconds until the queue has likely drained enough to accept new requests */
+  readonly retryAfter: number;
+
+  constructor(provider: string, retryAfter: number) {
+    super(`${provider} is busy (request queue full). Please try again in ${retryAfter}s.`);
+    this.name = 'SchedulerQueueFullError';
+    this.provider = provider;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when a scheduled request takes longer than the provider's taskTimeoutMs
+ */
+export class SchedulerTimeoutError extends Error {
+  readonly provider: string;
+
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} request timed out after ${timeoutMs}ms.`);
+    this.name = 'SchedulerTimeoutError';
+    this.provider = provider;
+  }
+}
+
+interface QueuedRequest {
+  key: string;
+  task: (signal: AbortSignal) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * FIFO request scheduler for one upstream provider
+ */
+class RequestScheduler {
+  private config: RequestSchedulerConfig;
+  private queue: QueuedRequest[];
+  private inFlight: Map<string, Promise<unknown>>;
+  private running: boolean;
+  private lastStart: number;
+  private stats: { completed: number; coalesced: number; rejected: number; timedOut: number };
+
+  constructor(config: RequestSchedulerConfig) {
+    this.config = config;
+    this.queue = [];
+    this.inFlight = new Map();
+    this.running = false;
+    this.lastStart = 0;
+    this.stats = { completed: 0, coalesced: 0, rejected: 0, timedOut: 0 };
+  }
+
+  /**
+   * Schedule a request
+   * If a request with the same key is already queued or running, its result is shared.
+   *
+   * @param key - Identity of the request (e.g. the full upstream URL)
+   * @param task - Performs the upstream call (including any retries); must stop
+   *               when the signal aborts, which happens once taskTimeoutMs has passed
+   * @throws SchedulerQueueFullError if the queue is at maxQueueDepth
+   */
+  schedule<T>(key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.stats.coalesced++;
+      console.log(`[SCHEDULER] ${this.config.name}: coalesced ${key}`);
+      return existing as Promise<T>;
+    }
+
+    if (this.queue.length >= this.config.maxQueueDepth) {
+      this.stats.rejected++;
+      const retryAfter = Math.ceil((this.queue.length * this.config.minIntervalMs) / 1000);
+      console.warn(`[SCHEDULER] ${this.config.name}: queue full (${this.queue.length}), rejecting ${key}`);
+      return Promise.reject(new SchedulerQueueFullError(this.config.name, retryAfter));
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      this.queue.push({ key, task, resolve: resolve as (value: unknown) => void, reject });
+    });
+    this.inFlight.set(key, promise);
+
+    void this.drain();
+    return promise;
+  }
+
+  /**
+   * Runs a task, rejecting with SchedulerTimeoutError once taskTimeoutMs has passed
+   * The task's signal is aborted at the same time, so its upstream call is cancelled
+   * instead of running on next to the following request.
+   */
+  private async runWithTimeout(request: QueuedRequest): Promise<unknown> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new SchedulerTimeoutError(this.config.name, this.config.taskTimeoutMs);
+        this.stats.timedOut++;
+        console.warn(`[SCHEDULER] ${this.config.name}: ${request.key} timed out after ${this.config.taskTimeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, this.config.taskTimeoutMs);
+    });
+
+    try {
+      // Promise.resolve().then() also turns a synchronous throw into a rejection
+      return await Promise.race([Promise.resolve().then(() => request.task(controller.signal)), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Runs queued requests one at a time, spaced by minIntervalMs
+   * A failed, rejected or timed-out request is passed to its caller and the queue moves on.
+   */
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const wait = this.lastStart + this.config.minIntervalMs - Date.now();
+        if (wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait));
+        }
+
+        const request = this.queue.shift()!;
+        this.lastStart = Date.now();
+
+        try {
+          request.resolve(await this.runWithTimeout(request));
+        } catch (error) {
+          request.reject(error);
+        } finally {
+          this.stats.completed++;
+          this.inFlight.delete(request.key);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Get scheduler statistics
+   */
+  getStats(): RequestSchedulerStats {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      ...this.stats,
+    };
+  }
+}
+
+/**
+ * Nominatim request scheduler
+ * Usage policy: at most 1 request per second, across all users of this server
+ * A full queue means callers would wait 10+ seconds, so they get a 503 instead.
+ */
+export const nominatimScheduler = new RequestScheduler({
+  name: 'Nominatim',
+  minIntervalMs: 1000,
+  maxQueueDepth: 10,
+  taskTimeoutMs: 30000,
+});
@@ -0,0 +1,158 @@
+/**
+ * Runtime Schemas
+ * Minimal validators for untrusted JSON (AI responses), with readable issue
+ * messages that can be sent back to the model in a repair prompt.
+ */
+
+/**
+ * Validator for values of type T
+ */
+export interface Schema<T> {
+  /** Short description of the expected shape, e.g. "array of strings" */
+  readonly description: string;
+  /** Appends a message for every problem found in `value` (prefixed with its path, e.g. "[2].pros") */
+  check(value: unknown, path: string, issues: string[]): void;
+  /** Carries the validated type; never set at runtime */
+  readonly _type?: T;
+}
+
+/**
+ * The type a schema validates
+ */
+export type SchemaType<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Validation result
+ */
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; issues: string[] };
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value.slice(0, 40)}"` : typeof value;
+}
+
+function at(path: string): string {
+  return path || 'value';
+}
+
+/**
+ * String schema
+ */
+export function stringSchema(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  const { minLength = 0, maxLength = Infinity } = options;
+  return {
+    description: 'string',
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push(`${at(path)}: expected a string, got ${describeValue(value)}`);
+      } else if (value.trim().length < minLength) {
+        issues.push(`${at(path)}: must be at least ${minLength} characters`);
+      } else if (value.length > maxLength) {
+        issues.push(`${at(path)}: must be at most ${maxLength} characters`);
+      }
+    },
+  };
+}
+
+/**
+ * Number schema (rejects NaN and numeric strings like "95")
+ */
+export function numberSchema(options: { min?: number; max?: number } = {}): Schema<number> {
+  const { min = -Infinity, max = Infinity } = options;
+  return {
+    description: 'number',
+    check(value, path, issues) {
+      if (typeof value !== 'number' || !isFinite(value)) {
+        issues.push(`${at(path)}: expected a number, got ${describeValue(value)}`);
+      } else if (value < min || value > max) {
+        issues.push(`${at(path)}: must be between ${min} and ${max}, got ${value}`);
+      }
+    },
+  };
+}
+
+/**
+ * Array schema
+ */
+export function arraySchema<T>(
+  item: Schema<T>,
+  options: { minItems?: number; maxItems?: number } = {}
+): Schema<T[]> {
+  const { minItems = 0, maxItems = Infinity } = options;
+  return {
+    description: `array of ${item.description}s`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${at(path)}: expected an array, got ${describeValue(value)}`);
+        return;
+      }
+      if (value.length < minItems) issues.push(`${at(path)}: expected at least ${minItems} items, got ${value.length}`);
+      if (value.length > maxItems) issues.push(`${at(path)}: expected at most ${maxItems} items, got ${value.length}`);
+      value.forEach((element, i) => item.check(element, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+/**
+ * Object schema
+ * Every listed property is required; extra properties are ignored.
+ */
+export function objectSchema<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: SchemaType<S[K]> }> {
+  return {
+    description: 'object',
+    check(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${at(path)}: expected an object, got ${describeValue(value)}`);
+        return;
+      }
+      for (const [key, property] of Object.entries(shape)) {
+        const propertyPath = path ? `${path}.${key}` : key;
+        if (!(key in value)) {
+          issues.push(`${propertyPath}: is required`);
+        } else {
+          property.check((value as Record<string, unknown>)[key], propertyPath, issues);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Adds a custom rule to a schema
+ * The rule only runs when the value already matches the base schema.
+ *
+ * @param rule - Returns a problem description, or null when the value is fine
+ */
+export function refineSchema<T>(schema: Schema<T>, rule: (value: T) => string | null): Schema<T> {
+  return {
+    description: schema.description,
+    check(value, path, issues) {
+      const before = issues.length;
+      schema.check(value, path, issues);
+      if (issues.length > before) return;
+
+      const problem = rule(value as T);
+      if (problem) issues.push(`${at(path)}: ${problem}`);
+    },
+  };
+}
+
+/**
+ * Validates a value against a schema
+ *
+ * @example
+ * ```typescript
+ * validate(arraySchema(stringSchema()), ['pub', 42]);
+ * // { valid: false, issues: ['[1]: expected a string, got number'] }
+ * ```
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: string[] = [];
+  schema.check(value, '', issues);
+  return issues.length === 0 ? { valid: true, value: value as T } : { valid: false, issues };
+}
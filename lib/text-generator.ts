@@ -1,6 +1,8 @@
 import type { RecommendedVenue } from '@/types/venue';
 import type { UserPreferences } from '@/types/user-preferences';
 import { getPriceLabel } from './utils';
+import { formatDistance, toCompassDirection } from './geo';
+import { DEFAULT_LOCALE, getCurrencySymbol } from './locale';
 
 /**
  * Generates a plain text summary of the plan (Markdown format)
@@ -9,12 +11,18 @@ export function generateTextSummary(
   recommendations: RecommendedVenue[],
   userPreferences: UserPreferences
 ): string {
+  const { units, countryCode } = userPreferences.locale || DEFAULT_LOCALE;
+  const currencySymbol = getCurrencySymbol(countryCode);
+
   let text = `${userPreferences.occasion.toUpperCase()} - VENUE RECOMMENDATIONS\n`;
   text += `Generated on ${new Date().toLocaleDateString()}\n\n`;
 
   text += `SEARCH DETAILS:\n`;
   text += `Location: ${userPreferences.location}\n`;
   text += `Budget: ${userPreferences.budget}\n`;
+  if (userPreferences.plannedDate && userPreferences.plannedTime) {
+    text += `When: ${userPreferences.plannedDate} at ${userPreferences.plannedTime}\n`;
+  }
   if (userPreferences.atmosphere) text += `Atmosphere: ${userPreferences.atmosphere}\n`;
   if (userPreferences.groupSize) text += `Group Size: ${userPreferences.groupSize}\n`;
   text += `\n${'='.repeat(50)}\n\n`;
@@ -23,9 +31,15 @@ export function generateTextSummary(
     text += `${index + 1}. ${venue.name.toUpperCase()}\n`;
     text += `${'—'.repeat(40)}\n`;
     text += `Address: ${venue.address}\n`;
+    if (venue.distance !== undefined) {
+      const direction = venue.bearing !== undefined ? ` ${toCompassDirection(venue.bearing)}` : '';
+      text += `Distance: ${formatDistance(venue.distance, units)}${direction} of ${userPreferences.location}\n`;
+    }
     text += `Rating: ${venue.rating > 0 ? venue.rating.toFixed(1) + ' ⭐' : 'N/A'}\n`;
-    text += `Price: ${getPriceLabel(venue.priceLevel)}\n`;
-    text += `Match: ${venue.matchScore}%\n\n`;
+    text += `Price: ${getPriceLabel(venue.priceLevel, currencySymbol)}\n`;
+    text += `Match: ${venue.matchScore}%\n`;
+    if (venue.openingStatus === 'closes_early') text += `Note: Closes before your plans end\n`;
+    text += `\n`;
 
     if (venue.aiReasoning) {
       text += `Why this venue:\n${venue.aiReasoning}\n\n`;
@@ -3,21 +3,45 @@
  */
 
 /**
- * Converts a numeric price level (1-4) to dollar sign symbols
+ * Converts a numeric price level (1-4) to currency symbols
  *
  * @param priceLevel - Numeric price level (1 = budget, 4 = expensive)
- * @returns Dollar sign string ($, $$, $$$, $$$$)
+ * @param currencySymbol - Symbol to repeat (see getCurrencySymbol in lib/locale)
+ * @returns Currency symbol string ($, $$, $$$, $$$$)
  *
  * @example
  * ```typescript
- * getPriceLabel(1); // "$"
- * getPriceLabel(3); // "$$$"
- * getPriceLabel(0); // "Price not available"
+ * getPriceLabel(1);      // "$"
+ * getPriceLabel(3);      // "$$$"
+ * getPriceLabel(2, '€'); // "€€"
+ * getPriceLabel(0);      // "Price not available"
  * ```
  */
-export function getPriceLabel(priceLevel: number): string {
+export function getPriceLabel(priceLevel: number, currencySymbol: string = '$'): string {
   if (priceLevel < 1 || priceLevel > 4) {
     return 'Price not available';
   }
-  return '$'.repeat(priceLevel);
-}
\ No newline at end of file
+  return currencySymbol.repeat(priceLevel);
+}
+
+/**
+ * Returns this browser tab's session ID, creating it on first use
+ * Sent as the x-session-id header so the API keeps a session on the same
+ * prompt versions (A/B buckets). Stored in sessionStorage, so a new tab is a new session.
+ *
+ * @returns Session ID, or undefined outside the browser or when storage is unavailable
+ */
+export function getBrowserSessionId(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  try {
+    let sessionId = sessionStorage.getItem('sessionId');
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      sessionStorage.setItem('sessionId', sessionId);
+    }
+    return sessionId;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Venue Entity Resolution
+ * OSM often maps the same venue more than once (a node for the shop and a way for
+ * its building), under slightly different names ("Joe's Pizza" vs "Joes Pizza").
+ * Duplicates are found by normalized name, proximity and shared wikidata/website
+ * tags, and merged into one venue that records the source IDs it came from.
+ */
+
+import type { VenueAttributes } from '@/types/venue';
+import type { OverpassVenue } from './overpass';
+import { haversineDistance } from './geo';
+
+/**
+ * Max distance in meters for two similarly named venues to be the same place
+ * (a node at the entrance and the center of a large building can be this far apart)
+ */
+const NAME_MATCH_DISTANCE_M = 75;
+
+/**
+ * Max distance in meters for venues sharing a wikidata ID or website
+ * Chains share websites (and sometimes mis-tagged brand wikidata IDs),
+ * so these still need to be close together
+ */
+const TAG_MATCH_DISTANCE_M = 150;
+
+/**
+ * Minimum name similarity (0-1, from edit distance) to count as the same name
+ */
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Normalizes a venue name for comparison
+ * Lowercases, strips accents and punctuation, and drops a leading "the".
+ *
+ * @example
+ * ```typescript
+ * normalizeVenueName("Joe's Pizza");   // "joes pizza"
+ * normalizeVenueName('The Café & Bar'); // "cafe and bar"
+ * ```
+ */
+export function normalizeVenueName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+/**
+ * Normalizes a website URL to host + path, ignoring scheme, "www." and trailing slashes
+ */
+function normalizeWebsite(website: string): string {
+  return website
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Checks whether two normalized names refer to the same venue
+ * Matches near-identical spellings, and one name being a whole-word prefix of
+ * the other ("joes pizza" vs "joes pizza and pasta")
+ */
+function namesMatch(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a === b) return true;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  // Very short names ("bar") are too generic to match on a prefix alone
+  if (shorter.length >= 4 && longer.startsWith(`${shorter} `)) return true;
+
+  return 1 - levenshtein(a, b) / longer.length >= NAME_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Checks whether two venues are the same place
+ */
+function isDuplicate(a: OverpassVenue, b: OverpassVenue): boolean {
+  if (!a.location || !b.location) return false;
+
+  const distance = haversineDistance(a.location, b.location);
+  if (distance > TAG_MATCH_DISTANCE_M) return false;
+
+  if (a.wikidata && a.wikidata === b.wikidata) return true;
+
+  const websiteA = a.attributes?.website;
+  const websiteB = b.attributes?.website;
+  if (websiteA && websiteB && normalizeWebsite(websiteA) === normalizeWebsite(websiteB)) return true;
+
+  return (
+    distance <= NAME_MATCH_DISTANCE_M &&
+    namesMatch(normalizeVenueName(a.name || ''), normalizeVenueName(b.name || ''))
+  );
+}
+
+/**
+ * Groups venues that refer to the same place
+ * Duplicates are transitive: if A matches B and B matches C, all three are one group.
+ *
+ * @returns Groups of indices into `venues`, each in input order, ordered by first member
+ */
+export function findDuplicateGroups(venues: OverpassVenue[]): number[][] {
+  const parent = venues.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < venues.length; i++) {
+    for (let j = i + 1; j < venues.length; j++) {
+      if (find(i) !== find(j) && isDuplicate(venues[i], venues[j])) {
+        parent[Math.max(find(i), find(j))] = Math.min(find(i), find(j));
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  venues.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Counts how much useful data a venue record carries
+ */
+function completeness(venue: OverpassVenue): number {
+  return (
+    Object.keys(venue.attributes || {}).length +
+    (venue.address && venue.address !== 'Address not available' ? 2 : 0) +
+    (venue.wikidata ? 2 : 0)
+  );
+}
+
+/**
+ * Merges duplicate records of one venue
+ * The most complete record wins (keeping its name, ID and location); fields it
+ * lacks are filled in from the others, and all source IDs are recorded.
+ */
+export function mergeVenueRecords(records: OverpassVenue[]): OverpassVenue {
+  const [primary, ...others] = [...records].sort((a, b) => completeness(b) - completeness(a));
+  if (others.length === 0) {
+    return { ...primary, sourceIds: primary.placeId ? [primary.placeId] : [] };
+  }
+
+  const attributes: VenueAttributes = { ...primary.attributes };
+  for (const other of others) {
+    for (const [key, value] of Object.entries(other.attributes || {})) {
+      const k = key as keyof VenueAttributes;
+      if (attributes[k] === undefined) {
+        (attributes as Record<string, unknown>)[k] = value;
+      }
+    }
+  }
+
+  const cuisine = Array.from(new Set(records.flatMap((r) => r.attributes?.cuisine || [])));
+  if (cuisine.length > 0) attributes.cuisine = cuisine;
+
+  const diet = Object.assign({}, ...others.map((r) => r.attributes?.diet), primary.attributes?.diet);
+  if (Object.keys(diet).length > 0) attributes.diet = diet;
+
+  const address =
+    primary.address !== 'Address not available'
+      ? primary.address
+      : others.find((r) => r.address && r.address !== 'Address not available')?.address || primary.address;
+
+  return {
+    ...primary,
+    address,
+    attributes,
+    wikidata: primary.wikidata || others.find((r) => r.wikidata)?.wikidata,
+    sourceIds: records.map((r) => r.placeId).filter((id): id is string => !!id).sort(),
+  };
+}
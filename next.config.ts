@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
+  // The offline gazetteer is read with fs at runtime, so bundle it with the API routes
+  outputFileTracingIncludes: {
+    '/api/**': ['./data/gazetteer*.json'],
+  },
 };
 
 export default nextConfig;
@@ -5,14 +5,20 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { geocodeLocation } from '@/lib/nominatim';
+import { geocodeLocation, type SearchArea, type LocationSuggestion } from '@/lib/nominatim';
+import { SchedulerQueueFullError } from '@/lib/request-scheduler';
 import { rateLimiter, calculateRetryAfter } from '@/lib/rate-limiter';
+import { isValidLanguage, isValidCountryCode } from '@/lib/locale';
 
 /**
  * Request body interface
  */
 interface GeocodeRequest {
   location: string;
+  /** Preferred language for the display name, e.g. "fr" */
+  language?: string;
+  /** Country to prefer for ambiguous names, e.g. "GB" */
+  countryCode?: string;
 }
 
 /**
@@ -22,6 +28,13 @@ interface GeocodeSuccessResponse {
   lat: number;
   lng: number;
   displayName: string;
+  area?: SearchArea;
+  /** True when the location is a city/postcode centroid from the offline gazetteer */
+  approximate: boolean;
+  /** True when several distinct places match; the client should ask the user to pick one */
+  ambiguous: boolean;
+  /** The matching places, best first (only set when ambiguous) */
+  candidates?: LocationSuggestion[];
 }
 
 /**
@@ -57,13 +70,16 @@ function getClientIP(req: NextApiRequest): string {
  * Geocode API endpoint handler
  *
  * @route POST /api/geocode
- * @body { location: string } - City name, address, or zip code
- * @returns { lat: number, lng: number, displayName: string }
+ * @body { location: string, language?: string, countryCode?: string } - City name, address, or zip code
+ * @returns { lat: number, lng: number, displayName: string, area?: SearchArea, approximate: boolean, ambiguous: boolean, candidates?: LocationSuggestion[] }
+ *
+ * The top match is always returned. When the name is ambiguous ("Springfield"),
+ * `ambiguous` is true and `candidates` lists the distinct places to choose from.
  *
  * @example
  * POST /api/geocode
  * Body: { "location": "New York, NY" }
- * Response: { "lat": 40.7128, "lng": -74.0060, "displayName": "New York, United States" }
+ * Response: { "lat": 40.7128, "lng": -74.0060, "displayName": "New York, United States", "approximate": false, "ambiguous": false }
  */
 export default async function handler(
   req: NextApiRequest,
@@ -102,7 +118,7 @@ export default async function handler(
 
   try {
     // Parse and validate request body
-    const { location } = req.body as GeocodeRequest;
+    const { location, language, countryCode } = req.body as GeocodeRequest;
 
     // Validate location field
     if (!location || typeof location !== 'string' || location.trim().length === 0) {
@@ -120,18 +136,47 @@ export default async function handler(
       });
     }
 
+    // Validate optional locale (the country is only a preference, not a filter)
+    if (language !== undefined && !isValidLanguage(language)) {
+      return res.status(400).json({
+        error: 'Language must be a language code such as "en" or "pt-BR".',
+        code: 'INVALID_LANGUAGE',
+      });
+    }
+
+    if (countryCode !== undefined && !isValidCountryCode(countryCode)) {
+      return res.status(400).json({
+        error: 'Country must be a two-letter country code such as "US".',
+        code: 'INVALID_COUNTRY',
+      });
+    }
+
     // Call Nominatim geocoding service
-    const geocoded = await geocodeLocation(location);
+    const geocoded = await geocodeLocation(location, { language, countryCode });
 
     // Return success response
     return res.status(200).json({
       lat: geocoded.lat,
       lng: geocoded.lng,
       displayName: geocoded.displayName,
+      area: geocoded.area,
+      approximate: !!geocoded.approximate,
+      ambiguous: !!geocoded.candidates,
+      candidates: geocoded.candidates,
     });
   } catch (error) {
     // Handle specific error cases
     if (error instanceof Error) {
+      // Too many geocoding requests already waiting for Nominatim's 1 req/s slot
+      if (error instanceof SchedulerQueueFullError) {
+        res.setHeader('Retry-After', error.retryAfter.toString());
+        return res.status(503).json({
+          error: 'The geocoding service is busy right now. Please try again in a few seconds.',
+          code: 'GEOCODER_BUSY',
+          retryAfter: error.retryAfter,
+        });
+      }
+
       // Location not found
       if (error.message.includes('not found')) {
         return res.status(404).json({
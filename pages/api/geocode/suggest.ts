@@ -0,0 +1,170 @@
+/**
+ * Location Suggestions API Route
+ * Returns ranked candidate locations for a partially typed location (typeahead)
+ * Uses free Nominatim API (OpenStreetMap), cached and limited to 1 req/s by the request scheduler
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { suggestLocations, type LocationSuggestion } from '@/lib/nominatim';
+import { SchedulerQueueFullError } from '@/lib/request-scheduler';
+import { rateLimiter, calculateRetryAfter } from '@/lib/rate-limiter';
+import { isValidLanguage, isValidCountryCode } from '@/lib/locale';
+
+/**
+ * Request body interface
+ */
+interface SuggestRequest {
+  query: string;
+  limit?: number;
+  /** Preferred language for display names, e.g. "fr" */
+  language?: string;
+  /** Country whose places are suggested first, e.g. "GB" */
+  countryCode?: string;
+}
+
+/**
+ * Success response interface
+ */
+interface SuggestSuccessResponse {
+  suggestions: LocationSuggestion[];
+}
+
+/**
+ * Error response interface
+ */
+interface SuggestErrorResponse {
+  error: string;
+  code: string;
+  retryAfter?: number;
+}
+
+/**
+ * Extract client IP from Next.js API request
+ */
+function getClientIP(req: NextApiRequest): string {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const realIp = req.headers['x-real-ip'];
+
+  if (forwardedFor) {
+    // x-forwarded-for can be a comma-separated list or string array
+    const ip = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor.split(',')[0];
+    return ip.trim();
+  }
+
+  if (realIp) {
+    return Array.isArray(realIp) ? realIp[0] : realIp;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Location suggestions API endpoint handler
+ *
+ * @route POST /api/geocode/suggest
+ * @body { query: string, limit?: number, language?: string, countryCode?: string } - Partial city name, address, or zip code
+ * @returns { suggestions: LocationSuggestion[] } - Ranked by importance; empty for queries under 3 characters
+ *
+ * @example
+ * POST /api/geocode/suggest
+ * Body: { "query": "brookl" }
+ * Response: { "suggestions": [{ "displayName": "Brooklyn, Kings County, New York, United States", ... }] }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SuggestSuccessResponse | SuggestErrorResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED',
+    });
+  }
+
+  // Route-specific rate limiting: 30 requests per minute per IP
+  // (higher than /api/geocode because the client sends one per debounced keystroke)
+  const ip = getClientIP(req);
+  const rateLimitResult = rateLimiter.check(`geocode-suggest:${ip}`, 30, 60000);
+
+  if (!rateLimitResult.allowed) {
+    const retryAfter = calculateRetryAfter(rateLimitResult);
+    res.setHeader('Retry-After', retryAfter.toString());
+    res.setHeader('X-RateLimit-Limit', '30');
+    res.setHeader('X-RateLimit-Remaining', '0');
+    res.setHeader('X-RateLimit-Reset', new Date(rateLimitResult.resetTime).toISOString());
+
+    return res.status(429).json({
+      error: 'Too many suggestion requests. Please try again later.',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter,
+    });
+  }
+
+  // Add rate limit headers to successful response
+  res.setHeader('X-RateLimit-Limit', '30');
+  res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+  res.setHeader('X-RateLimit-Reset', new Date(rateLimitResult.resetTime).toISOString());
+
+  try {
+    // Parse and validate request body
+    const { query, limit, language, countryCode } = req.body as SuggestRequest;
+
+    if (typeof query !== 'string') {
+      return res.status(400).json({
+        error: 'Query is required and must be a string.',
+        code: 'MISSING_QUERY',
+      });
+    }
+
+    // Validate query length (prevent abuse)
+    if (query.length > 200) {
+      return res.status(400).json({
+        error: 'Query is too long (max 200 characters).',
+        code: 'QUERY_TOO_LONG',
+      });
+    }
+
+    if (limit !== undefined && (typeof limit !== 'number' || limit < 1 || limit > 10)) {
+      return res.status(400).json({
+        error: 'Limit must be a number between 1 and 10.',
+        code: 'INVALID_LIMIT',
+      });
+    }
+
+    // Validate optional locale (the country is only a preference, not a filter)
+    if (language !== undefined && !isValidLanguage(language)) {
+      return res.status(400).json({
+        error: 'Language must be a language code such as "en" or "pt-BR".',
+        code: 'INVALID_LANGUAGE',
+      });
+    }
+
+    if (countryCode !== undefined && !isValidCountryCode(countryCode)) {
+      return res.status(400).json({
+        error: 'Country must be a two-letter country code such as "US".',
+        code: 'INVALID_COUNTRY',
+      });
+    }
+
+    const suggestions = await suggestLocations(query, limit, { language, countryCode });
+
+    return res.status(200).json({ suggestions });
+  } catch (error) {
+    if (error instanceof SchedulerQueueFullError) {
+      res.setHeader('Retry-After', error.retryAfter.toString());
+      return res.status(503).json({
+        error: 'The geocoding service is busy right now. Please try again in a few seconds.',
+        code: 'GEOCODER_BUSY',
+        retryAfter: error.retryAfter,
+      });
+    }
+
+    // Suggestions are best-effort; the form still works with free text
+    console.error('Location suggestion error:', error instanceof Error ? error.message : error);
+    return res.status(503).json({
+      error: 'Location suggestions are temporarily unavailable.',
+      code: 'SERVICE_UNAVAILABLE',
+    });
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * AI Usage Stats API Route (internal)
+ * Reports today's AI token usage per route, client and model, remaining daily
+ * budgets, agreement with the rule-based ranking, the most recent calls, and hit
+ * rates of the AI response cache next to the geocoding and venue caches.
+ * Disabled unless AI_STATS_TOKEN is set; requests must send it as a Bearer token.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { LLMUsageStats } from '@/types/ai';
+import type { CacheStats, LLMCacheStats } from '@/types/cache';
+import { llmUsage } from '@/lib/llm-usage';
+import { getLLMCacheStats } from '@/lib/llm-cache';
+import { geocodeCache, overpassCache } from '@/lib/cache';
+import { rateLimiter, calculateRetryAfter } from '@/lib/rate-limiter';
+
+/**
+ * Success response interface
+ */
+interface AIUsageResponse extends LLMUsageStats {
+  caches: {
+    llm: LLMCacheStats;
+    geocode: CacheStats;
+    overpass: CacheStats;
+  };
+}
+
+/**
+ * Error response interface
+ */
+interface AIUsageErrorResponse {
+  error: string;
+  code: string;
+  retryAfter?: number;
+}
+
+/**
+ * Extract client IP from Next.js API request
+ */
+function getClientIP(req: NextApiRequest): string {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const realIp = req.headers['x-real-ip'];
+
+  if (forwardedFor) {
+    // x-forwarded-for can be a comma-separated list or string array
+    const ip = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor.split(',')[0];
+    return ip.trim();
+  }
+
+  if (realIp) {
+    return Array.isArray(realIp) ? realIp[0] : realIp;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Compares the Authorization header with the configured token in constant time
+ */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(header || '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * AI usage stats endpoint handler
+ *
+ * @route GET /api/internal/ai-usage
+ * @header Authorization: Bearer <AI_STATS_TOKEN>
+ * @returns Today's totals (UTC), budgets, recent calls and cache statistics
+ *
+ * @example
+ * GET /api/internal/ai-usage
+ * Response: { "day": "2025-06-01", "total": { "calls": 42, "totalTokens": 61234, ... }, "byRoute": {...}, ...,
+ *             "caches": { "llm": { "hits": 12, "misses": 30, "hitRate": 0.29, "bypassed": 0, ... }, ... } }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AIUsageResponse | AIUsageErrorResponse>
+) {
+  const token = process.env.AI_STATS_TOKEN;
+
+  // Hide the endpoint entirely when it isn't configured
+  if (!token) {
+    return res.status(404).json({
+      error: 'Not found.',
+      code: 'NOT_FOUND',
+    });
+  }
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method not allowed. Use GET.',
+      code: 'METHOD_NOT_ALLOWED',
+    });
+  }
+
+  // Route-specific rate limiting: 10 requests per minute per IP
+  const ip = getClientIP(req);
+  const rateLimitResult = rateLimiter.check(`ai-usage:${ip}`, 10, 60000);
+
+  if (!rateLimitResult.allowed) {
+    const retryAfter = calculateRetryAfter(rateLimitResult);
+    res.setHeader('Retry-After', retryAfter.toString());
+
+    return res.status(429).json({
+      error: 'Too many stats requests. Please try again later.',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter,
+    });
+  }
+
+  if (!isAuthorized(req.headers.authorization, token)) {
+    return res.status(401).json({
+      error: 'A valid stats token is required.',
+      code: 'UNAUTHORIZED',
+    });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({
+    ...llmUsage.getStats(),
+    caches: {
+      llm: getLLMCacheStats(),
+      geocode: geocodeCache.getStats(),
+      overpass: overpassCache.getStats(),
+    },
+  });
+}
@@ -5,9 +5,20 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import type { UserPreferences } from '@/types/user-preferences';
+import type { UserPreferences, DistanceUnits } from '@/types/user-preferences';
 import type { Venue, RecommendationResponse, RecommendedVenue } from '@/types/venue';
-import { callOpenRouterJSON } from '@/lib/openrouter';
+import type { AICallContext, AIResponseMeta } from '@/types/ai';
+import type { RankedVenue } from '@/types/ranking';
+import { callLLMJSON } from '@/lib/llm';
+import { checkAIBudget, getAIClientId, llmUsage } from '@/lib/llm-usage';
+import { LLMOutputError } from '@/lib/llm-errors';
+import { arraySchema, numberSchema, objectSchema, refineSchema, stringSchema, validate, type Schema } from '@/lib/schema';
+import { sanitizeForPrompt } from '@/lib/prompt-safety';
+import { getPromptSessionId, renderPrompt } from '@/lib/prompts';
+import { describeDietaryStatus, isDietaryRestriction } from '@/lib/dietary';
+import { formatDistance, toCompassDirection } from '@/lib/geo';
+import { describeOwnership } from '@/lib/ownership';
+import { rankVenues } from '@/lib/ranking';
 import { rateLimiter, calculateRetryAfter } from '@/lib/rate-limiter';
 
 /**
@@ -50,147 +61,250 @@ function getClientIP(req: NextApiRequest): string {
  * AI response format for recommendations
  */
 interface AIRecommendation {
-  venueName: string;
+  venueId: string;
   matchScore: number;
   aiReasoning: string;
   pros: string[];
   cons: string[];
 }
 
+/**
+ * Runtime schema for one AI recommendation
+ */
+const AI_RECOMMENDATION_SCHEMA: Schema<AIRecommendation> = objectSchema({
+  venueId: stringSchema({ minLength: 1, maxLength: 20 }),
+  matchScore: numberSchema({ min: 0, max: 100 }),
+  aiReasoning: stringSchema({ minLength: 1, maxLength: 1000 }),
+  pros: arraySchema(stringSchema({ minLength: 1, maxLength: 200 }), { minItems: 1, maxItems: 6 }),
+  cons: arraySchema(stringSchema({ minLength: 1, maxLength: 200 }), { maxItems: 4 }),
+});
+
+/**
+ * Size limits for the AI's answer (the prompt asks for the top 5)
+ */
+const AI_RECOMMENDATIONS_LIMITS = { minItems: 1, maxItems: 10 };
+
+/**
+ * Gives each venue a short, stable ID for the AI to refer to it by
+ * Names aren't unique (two "Starbucks") and get rephrased by the model, so the prompt
+ * uses "v" + 6 base-36 characters of an FNV-1a hash of the placeId instead.
+ * A hash collision (or the same venue sent twice) gets a "-2", "-3", ... suffix.
+ *
+ * @example createPromptIds(venues); // ["v0k3j9x", "v1qz0a7", ...]
+ */
+function createPromptIds(venues: Venue[]): string[] {
+  const used = new Set<string>();
+  return venues.map((venue) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < venue.placeId.length; i++) {
+      hash = Math.imul(hash ^ venue.placeId.charCodeAt(i), 0x01000193);
+    }
+
+    const base = `v${(hash >>> 0).toString(36).padStart(6, '0').slice(-6)}`;
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    return id;
+  });
+}
+
+/**
+ * Converts a rule-based ranking into a recommendation
+ */
+function toRecommendation(ranked: RankedVenue): RecommendedVenue {
+  return {
+    ...ranked.venue,
+    matchScore: ranked.score,
+    aiReasoning: ranked.reasoning,
+    pros: ranked.pros,
+    cons: ranked.cons,
+    baselineScore: ranked.score,
+  };
+}
+
+/**
+ * Share of the AI's picks that the rule-based ranking also puts in its top 5
+ */
+function getBaselineAgreement(recommendations: RecommendedVenue[], baseline: RankedVenue[]): number {
+  const baselineTop = new Set(baseline.slice(0, 5).map((r) => r.venue.placeId));
+  const agreed = recommendations.filter((r) => baselineTop.has(r.placeId)).length;
+  return recommendations.length > 0 ? Math.round((agreed / recommendations.length) * 100) / 100 : 0;
+}
+
+/**
+ * Describes a venue's distance from the search center for prompts and pros
+ * @example describeDistance(venue); // "0.4 mi NE"
+ */
+function describeDistance(venue: Venue, units?: DistanceUnits): string | undefined {
+  if (venue.distance === undefined) return undefined;
+  const direction = venue.bearing !== undefined ? ` ${toCompassDirection(venue.bearing)}` : '';
+  return `${formatDistance(venue.distance, units)}${direction}`;
+}
+
+/**
+ * Sanitizes each cuisine for the prompt; undefined when none are left
+ * @example sanitizeCuisines(['italian', 'pizza']); // ["italian", "pizza"]
+ */
+function sanitizeCuisines(cuisines: unknown): string[] | undefined {
+  if (!Array.isArray(cuisines)) return undefined;
+  const sanitized = cuisines
+    .slice(0, 10)
+    .map((c) => sanitizeForPrompt(c, 30))
+    .filter(Boolean);
+  return sanitized.length > 0 ? sanitized : undefined;
+}
+
 /**
  * Generates personalized venue recommendations using AI
  *
  * @param venues - Array of venues to analyze
  * @param preferences - User preferences and occasion context
- * @returns Array of recommended venues with AI analysis
+ * @param aiContext - Route and client the AI tokens are charged to
+ * @returns Recommended venues with AI analysis, and AI details for the response
+ * (the rule-based ranking is used when the AI fails, and as a baseline otherwise)
  */
 async function generateRecommendations(
   venues: Venue[],
-  preferences: UserPreferences
-): Promise<RecommendedVenue[]> {
+  preferences: UserPreferences,
+  aiContext: AICallContext
+): Promise<{ recommendations: RecommendedVenue[]; ai: AIResponseMeta }> {
+  const baseline = rankVenues(venues, preferences);
+  const baselineById = new Map(baseline.map((r) => [r.venue.placeId, r]));
+
+  // The AI answers with these IDs; the venue names are only for its analysis
+  const promptIds = createPromptIds(venues);
+  const venueById = new Map(promptIds.map((id, i) => [id, venues[i]]));
+
   // Prepare venue data for AI (simplified to reduce token usage)
-  const venueData = venues.map((v) => ({
-    name: v.name,
-    address: v.address,
+  // Names, addresses, reviews and free-text tags come from OpenStreetMap and are untrusted
+  const venueData = venues.map((v, i) => ({
+    id: promptIds[i],
+    name: sanitizeForPrompt(v.name, 100),
+    address: sanitizeForPrompt(v.address, 150),
+    distanceFromSearchCenter: describeDistance(v, preferences.locale?.units) || 'unknown',
+    ownership: sanitizeForPrompt(describeOwnership(v.ownership, v.attributes), 150),
     rating: v.rating,
     priceLevel: v.priceLevel,
     reviewCount: v.reviews.length,
-    topReview: v.reviews[0]?.text || 'No reviews available',
+    topReview: sanitizeForPrompt(v.reviews[0]?.text, 300) || 'No reviews available',
+    openAtPlannedTime: v.openingStatus || 'unknown',
+    dietarySupport: v.dietaryStatus ? describeDietaryStatus(v.dietaryStatus) : [],
+    // Contact details don't help ranking, so only send the descriptive attributes
+    features: v.attributes
+      ? {
+          cuisine: sanitizeCuisines(v.attributes.cuisine),
+          openingHours: sanitizeForPrompt(v.attributes.openingHours, 120) || undefined,
+          wheelchair: v.attributes.wheelchair,
+          outdoorSeating: v.attributes.outdoorSeating,
+          reservation: v.attributes.reservation,
+          takeaway: v.attributes.takeaway,
+          delivery: v.attributes.delivery,
+          internetAccess: v.attributes.internetAccess,
+          airConditioning: v.attributes.airConditioning,
+          smoking: sanitizeForPrompt(v.attributes.smoking, 20) || undefined,
+          diet: v.attributes.diet &&
+            Object.fromEntries(
+              Object.entries(v.attributes.diet).map(([key, value]) => [sanitizeForPrompt(key, 30), sanitizeForPrompt(value, 20)])
+            ),
+        }
+      : {},
   }));
 
-  const prompt = `You are an expert event planner. Analyze these venues and recommend the BEST matches for the user's specific occasion and preferences.
-
-USER CONTEXT:
-Occasion: ${preferences.occasion}
-Budget: ${preferences.budget}
-Group Size: ${preferences.groupSize || 'not specified'}
-Dietary Restrictions: ${preferences.dietaryRestrictions?.join(', ') || 'none'}
-Desired Atmosphere: ${preferences.atmosphere || 'any'}
-Additional Preferences: ${preferences.additionalPreferences || 'none'}
-
-AVAILABLE VENUES:
-${JSON.stringify(venueData, null, 2)}
-
-TASK: Analyze each venue and provide:
-1. **matchScore** (0-100): How well this venue matches the user's specific needs
-   - Consider: occasion appropriateness, budget fit, atmosphere match, dietary compatibility
-   - 90-100: Perfect match
-   - 70-89: Great match with minor compromises
-   - 50-69: Good option but notable limitations
-   - Below 50: Poor match
-
-2. **aiReasoning** (2-3 sentences): Explain WHY this venue works for THIS specific occasion
-   - Be specific to the user's occasion and preferences
-   - Reference the venue's actual features and atmosphere
-   - Do NOT mention ratings or review scores
-
-3. **pros** (2-4 items): Specific advantages for THIS occasion
-   - Focus on what makes it great for their needs
-   - Be concrete and actionable
-
-4. **cons** (1-2 items): Honest potential drawbacks
-   - Practical considerations (reservations, parking, etc.)
-   - Be helpful, not overly negative
-
-CRITICAL: Return ONLY valid JSON. No markdown, no explanations, just the JSON array.
-Format:
-[
-  {
-    "venueName": "Exact Venue Name from list",
-    "matchScore": 95,
-    "aiReasoning": "This venue is perfect because...",
-    "pros": ["Specific advantage 1", "Specific advantage 2", "Specific advantage 3"],
-    "cons": ["Practical consideration"]
+  const dietaryRestrictions = (Array.isArray(preferences.dietaryRestrictions) ? preferences.dietaryRestrictions : [])
+    .slice(0, 10)
+    .map((d) => sanitizeForPrompt(d, 40))
+    .filter(Boolean);
+  const userContext = [
+    `Occasion: ${sanitizeForPrompt(preferences.occasion, 100)}`,
+    `Budget: ${sanitizeForPrompt(preferences.budget, 10) || 'any'}`,
+    `Group Size: ${Number(preferences.groupSize) || 'not specified'}`,
+    `Dietary Restrictions: ${dietaryRestrictions.join(', ') || 'none'}`,
+    `Desired Atmosphere: ${sanitizeForPrompt(preferences.atmosphere, 100) || 'any'}`,
+    `Prefers Independent Venues: ${preferences.preferIndependent ? 'yes' : 'no preference'}`,
+    `Additional Preferences: ${sanitizeForPrompt(preferences.additionalPreferences, 300) || 'none'}`,
+    `Planned Time: ${preferences.plannedDate && preferences.plannedTime
+      ? `${sanitizeForPrompt(preferences.plannedDate, 10)} at ${sanitizeForPrompt(preferences.plannedTime, 5)} for ${Number(preferences.durationMinutes) || 120} minutes`
+      : 'not specified'}`,
+  ].join('\n');
+
+  const { text: prompt, version: promptVersion } = renderPrompt(
+    'recommendations',
+    { userContext, venueData: JSON.stringify(venueData, null, 2) },
+    aiContext.sessionId ?? aiContext.clientId
+  );
+
+  // Reject unknown and repeated IDs, so the repair prompt can point them out
+  const recommendationSchema = refineSchema(AI_RECOMMENDATION_SCHEMA, (rec) =>
+    venueById.has(rec.venueId) ? null : `venueId "${rec.venueId}" is not one of the supplied venue ids`
+  );
+  const responseSchema = refineSchema(arraySchema(recommendationSchema, AI_RECOMMENDATIONS_LIMITS), (recs) => {
+    const repeated = recs.find((rec, i) => recs.findIndex((r) => r.venueId === rec.venueId) !== i);
+    return repeated ? `venueId "${repeated.venueId}" is recommended more than once` : null;
+  });
+
+  let aiRecommendations: AIRecommendation[];
+  let model: string | null = null;
+  try {
+    ({ data: aiRecommendations, model } = await callLLMJSON(prompt, responseSchema, 'ranking', { ...aiContext, promptVersion }));
+  } catch (error) {
+    // Still malformed after the repair: keep the individual entries that are valid
+    // (unknown IDs fail validation; a repeated ID keeps its first entry below)
+    const salvaged =
+      error instanceof LLMOutputError && Array.isArray(error.value)
+        ? error.value.flatMap((item) => {
+            const result = validate(recommendationSchema, item);
+            return result.valid ? [result.value] : [];
+          })
+        : [];
+
+    if (salvaged.length === 0) {
+      console.error('Error generating recommendations with AI:', error);
+      return { recommendations: baseline.slice(0, 5).map(toRecommendation), ai: { model: null, promptVersion } };
+    }
+
+    console.warn(`AI returned invalid recommendations, using the ${salvaged.length} valid entries`);
+    aiRecommendations = salvaged.slice(0, 5);
   }
-]
 
-Return TOP 5 recommendations ONLY, sorted by matchScore (highest first).`;
+  // Match AI recommendations with venue objects by ID
+  const recommendedVenues: RecommendedVenue[] = [];
+  const matchedPlaceIds = new Set<string>();
 
-  try {
-    const aiRecommendations = await callOpenRouterJSON<AIRecommendation[]>(prompt);
+  for (const aiRec of aiRecommendations) {
+    const venue = venueById.get(aiRec.venueId);
 
-    // Validate response
-    if (!Array.isArray(aiRecommendations) || aiRecommendations.length === 0) {
-      console.warn('AI returned invalid recommendations');
-      // Fallback: return venues sorted by rating
-      return venues.slice(0, 5).map((venue, index) => ({
+    if (!venue) {
+      console.warn(`[RECOMMENDATIONS] Ignoring unknown venue id "${aiRec.venueId}"`);
+    } else if (matchedPlaceIds.has(venue.placeId)) {
+      console.warn(`[RECOMMENDATIONS] Ignoring repeated venue ${venue.placeId} (id "${aiRec.venueId}")`);
+    } else {
+      matchedPlaceIds.add(venue.placeId);
+      recommendedVenues.push({
         ...venue,
-        matchScore: Math.max(0, 100 - index * 10),
-        aiReasoning: `This venue has a ${venue.rating} star rating and matches your search criteria.`,
-        pros: venue.rating >= 4 ? ['Highly rated'] : ['Available in your area'],
-        cons: venue.reviews.length === 0 ? ['Limited review data'] : [],
-      }));
+        matchScore: Math.round(aiRec.matchScore),
+        aiReasoning: aiRec.aiReasoning,
+        pros: aiRec.pros,
+        cons: aiRec.cons,
+        baselineScore: baselineById.get(venue.placeId)?.score,
+      });
     }
+  }
 
-    // Match AI recommendations with venue objects
-    const recommendedVenues: RecommendedVenue[] = [];
-
-    for (const aiRec of aiRecommendations) {
-      const venue = venues.find(
-        (v) => v.name.toLowerCase() === aiRec.venueName.toLowerCase()
-      );
-
-      if (venue) {
-        recommendedVenues.push({
-          ...venue,
-          matchScore: aiRec.matchScore,
-          aiReasoning: aiRec.aiReasoning,
-          pros: aiRec.pros,
-          cons: aiRec.cons,
-        });
-      }
-    }
+  // Compare before filling up, so rule-based filler doesn't count as agreement
+  const baselineAgreement = getBaselineAgreement(recommendedVenues, baseline);
+  llmUsage.recordBaselineAgreement(promptVersion, model ?? 'unknown', baselineAgreement);
 
-    // If AI didn't match all venues, add remaining ones with lower scores
-    if (recommendedVenues.length < 5) {
-      const unmatchedVenues = venues.filter(
-        (v) => !recommendedVenues.find((rv) => rv.name === v.name)
-      );
+  // If AI didn't match all venues, fill up with the best remaining rule-based picks
+  if (recommendedVenues.length < 5) {
+    const unmatched = baseline.filter(
+      (r) => !recommendedVenues.find((rv) => rv.placeId === r.venue.placeId)
+    );
+    recommendedVenues.push(...unmatched.slice(0, 5 - recommendedVenues.length).map(toRecommendation));
+  }
 
-      for (const venue of unmatchedVenues.slice(0, 5 - recommendedVenues.length)) {
-        recommendedVenues.push({
-          ...venue,
-          matchScore: 50,
-          aiReasoning: `This venue matches your search criteria and is located in your desired area.`,
-          pros: [`${venue.rating} star rating`],
-          cons: ['Limited matching data'],
-        });
-      }
-    }
+  const recommendations = recommendedVenues.sort((a, b) => b.matchScore - a.matchScore).slice(0, 5);
 
-    // Sort by match score (highest first) and limit to top 5
-    return recommendedVenues.sort((a, b) => b.matchScore - a.matchScore).slice(0, 5);
-  } catch (error) {
-    console.error('Error generating recommendations with AI:', error);
-    // Fallback: return venues sorted by rating
-    return venues.slice(0, 5).map((venue, index) => ({
-      ...venue,
-      matchScore: Math.max(0, 100 - index * 10),
-      aiReasoning: `This venue has a ${venue.rating} star rating and is available in your search area.`,
-      pros: venue.rating >= 4 ? ['Highly rated', 'Good reviews'] : ['Available in your area'],
-      cons: venue.reviews.length === 0 ? ['Limited review data'] : [],
-    }));
-  }
+  return { recommendations, ai: { model, promptVersion, baselineAgreement } };
 }
 
 /**
@@ -242,6 +356,25 @@ export default async function handler(
   res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
   res.setHeader('X-RateLimit-Reset', new Date(rateLimitResult.resetTime).toISOString());
 
+  // Daily AI token budget per client (IP or registered API key)
+  const aiContext: AICallContext = {
+    route: 'recommendations',
+    clientId: getAIClientId(ip, req.headers['x-api-key']),
+    sessionId: getPromptSessionId(req.headers['x-session-id'], ip),
+  };
+  const budgetResult = checkAIBudget(aiContext.clientId);
+
+  if (!budgetResult.allowed) {
+    const retryAfter = calculateRetryAfter(budgetResult);
+    res.setHeader('Retry-After', retryAfter.toString());
+
+    return res.status(429).json({
+      error: 'Daily AI usage limit reached. Please try again tomorrow.',
+      code: 'AI_BUDGET_EXCEEDED',
+      retryAfter,
+    });
+  }
+
   try {
     // Parse and validate request body
     const { venues, preferences } = req.body as RecommendationsRequest;
@@ -269,12 +402,42 @@ export default async function handler(
       });
     }
 
+    if (
+      preferences.dietaryRestrictions !== undefined &&
+      (!Array.isArray(preferences.dietaryRestrictions) ||
+        !preferences.dietaryRestrictions.every((d) => typeof d === 'string'))
+    ) {
+      return res.status(400).json({
+        error: 'Dietary restrictions must be an array of strings.',
+        code: 'INVALID_DIETARY_RESTRICTIONS',
+      });
+    }
+
+    // Dietary status comes back from the search route; reject anything it couldn't have produced
+    const hasInvalidDietaryStatus = venues.some((v) => {
+      const status: unknown = v?.dietaryStatus;
+      if (status === undefined) return false;
+      return (
+        !status ||
+        typeof status !== 'object' ||
+        Array.isArray(status) ||
+        !Object.keys(status).every(isDietaryRestriction)
+      );
+    });
+    if (hasInvalidDietaryStatus) {
+      return res.status(400).json({
+        error: 'Venue dietary status contains unknown restrictions.',
+        code: 'INVALID_DIETARY_STATUS',
+      });
+    }
+
     // Generate recommendations using AI
-    const recommendations = await generateRecommendations(venues, preferences);
+    const { recommendations, ai } = await generateRecommendations(venues, preferences, aiContext);
 
     // Return success response
     return res.status(200).json({
       recommendations,
+      ai,
     });
   } catch (error) {
     // Handle specific error cases
@@ -0,0 +1,179 @@
+/**
+ * Reverse Geocode API Route
+ * Converts latitude/longitude coordinates to a human-readable place name
+ * Uses free Nominatim API (OpenStreetMap)
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { reverseGeocode } from '@/lib/nominatim';
+import { SchedulerQueueFullError } from '@/lib/request-scheduler';
+import { rateLimiter, calculateRetryAfter } from '@/lib/rate-limiter';
+import { isValidLanguage } from '@/lib/locale';
+
+/**
+ * Request body interface
+ */
+interface ReverseGeocodeRequest {
+  lat: number;
+  lng: number;
+  /** Preferred language for the place name, e.g. "fr" */
+  language?: string;
+}
+
+/**
+ * Success response interface
+ */
+interface ReverseGeocodeSuccessResponse {
+  lat: number;
+  lng: number;
+  displayName: string;
+}
+
+/**
+ * Error response interface
+ */
+interface ReverseGeocodeErrorResponse {
+  error: string;
+  code: string;
+  retryAfter?: number;
+}
+
+/**
+ * Extract client IP from Next.js API request
+ */
+function getClientIP(req: NextApiRequest): string {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const realIp = req.headers['x-real-ip'];
+
+  if (forwardedFor) {
+    // x-forwarded-for can be a comma-separated list or string array
+    const ip = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor.split(',')[0];
+    return ip.trim();
+  }
+
+  if (realIp) {
+    return Array.isArray(realIp) ? realIp[0] : realIp;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Reverse geocode API endpoint handler
+ *
+ * @route POST /api/reverse-geocode
+ * @body { lat: number, lng: number, language?: string } - Coordinates, e.g. from browser geolocation
+ * @returns { lat: number, lng: number, displayName: string }
+ *
+ * @example
+ * POST /api/reverse-geocode
+ * Body: { "lat": 40.7128, "lng": -74.0060 }
+ * Response: { "lat": 40.7128, "lng": -74.0060, "displayName": "New York, New York, United States" }
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReverseGeocodeSuccessResponse | ReverseGeocodeErrorResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed. Use POST.',
+      code: 'METHOD_NOT_ALLOWED',
+    });
+  }
+
+  // Route-specific rate limiting: 10 requests per minute per IP
+  const ip = getClientIP(req);
+  const rateLimitResult = rateLimiter.check(`reverse-geocode:${ip}`, 10, 60000);
+
+  if (!rateLimitResult.allowed) {
+    const retryAfter = calculateRetryAfter(rateLimitResult);
+    res.setHeader('Retry-After', retryAfter.toString());
+    res.setHeader('X-RateLimit-Limit', '10');
+    res.setHeader('X-RateLimit-Remaining', '0');
+    res.setHeader('X-RateLimit-Reset', new Date(rateLimitResult.resetTime).toISOString());
+
+    return res.status(429).json({
+      error: 'Too many reverse geocoding requests. Please try again later.',
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter,
+    });
+  }
+
+  // Add rate limit headers to successful response
+  res.setHeader('X-RateLimit-Limit', '10');
+  res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+  res.setHeader('X-RateLimit-Reset', new Date(rateLimitResult.resetTime).toISOString());
+
+  try {
+    // Parse and validate request body
+    const { lat, lng, language } = req.body as ReverseGeocodeRequest;
+
+    if (
+      typeof lat !== 'number' || typeof lng !== 'number' ||
+      !isFinite(lat) || !isFinite(lng) ||
+      lat < -90 || lat > 90 || lng < -180 || lng > 180
+    ) {
+      return res.status(400).json({
+        error: 'Valid coordinates are required (lat between -90 and 90, lng between -180 and 180).',
+        code: 'INVALID_COORDINATES',
+      });
+    }
+
+    if (language !== undefined && !isValidLanguage(language)) {
+      return res.status(400).json({
+        error: 'Language must be a language code such as "en" or "pt-BR".',
+        code: 'INVALID_LANGUAGE',
+      });
+    }
+
+    // Call Nominatim reverse geocoding service
+    const displayName = await reverseGeocode(lat, lng, { language });
+
+    // Return success response
+    return res.status(200).json({ lat, lng, displayName });
+  } catch (error) {
+    // Handle specific error cases
+    if (error instanceof Error) {
+      // Too many geocoding requests already waiting for Nominatim's 1 req/s slot
+      if (error instanceof SchedulerQueueFullError) {
+        res.setHeader('Retry-After', error.retryAfter.toString());
+        return res.status(503).json({
+          error: 'The geocoding service is busy right now. Please try again in a few seconds.',
+          code: 'GEOCODER_BUSY',
+          retryAfter: error.retryAfter,
+        });
+      }
+
+      // Nothing mapped at these coordinates (e.g. open sea)
+      if (error.message.includes('Unable to reverse geocode')) {
+        return res.status(404).json({
+          error: 'No place found at your current location.',
+          code: 'LOCATION_NOT_FOUND',
+        });
+      }
+
+      // Rate limiting error (Nominatim 1 req/sec)
+      if (error.message.includes('rate limit') || error.message.includes('429')) {
+        return res.status(429).json({
+          error: 'Rate limit exceeded. Please try again in a moment.',
+          code: 'RATE_LIMIT_EXCEEDED',
+        });
+      }
+
+      // Generic error with message
+      console.error('Reverse geocoding error:', error.message);
+      return res.status(500).json({
+        error: 'Failed to look up your location. Please type it in instead.',
+        code: 'REVERSE_GEOCODING_FAILED',
+      });
+    }
+
+    // Unknown error
+    console.error('Unknown reverse geocoding error:', error);
+    return res.status(500).json({
+      error: 'An unexpected error occurred while reverse geocoding.',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
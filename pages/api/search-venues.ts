@@ -1,17 +1,30 @@
 /**
  * Search Venues API Route
  * Uses:
- * 1. OpenRouter (AI) - To generate relevant search terms
+ * 1. AI (OpenRouter or a local model, see lib/llm.ts) - To generate relevant search terms
  * 2. Overpass API (OSM) - To find venues
  * 3. WikiData - To get images and descriptions
  * 4. OpenTripMap - To get popularity ratings
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import type { UserPreferences } from '@/types/user-preferences';
-import type { VenueSearchResponse, Venue } from '@/types/venue';
-import { callOpenRouterJSON } from '@/lib/openrouter';
-import { searchVenuesOverpass } from '@/lib/overpass';
+import type { UserPreferences, DietaryRestriction } from '@/types/user-preferences';
+import type { VenueSearchResponse, Venue, OpeningStatus, DietStatus, VenueOwnership } from '@/types/venue';
+import type { AICallContext, AIResponseMeta } from '@/types/ai';
+import { callLLMJSON } from '@/lib/llm';
+import { checkAIBudget, getAIClientId } from '@/lib/llm-usage';
+import { LLMOutputError } from '@/lib/llm-errors';
+import { arraySchema, refineSchema, stringSchema } from '@/lib/schema';
+import { sanitizeForPrompt } from '@/lib/prompt-safety';
+import { getPromptSessionId, renderPrompt } from '@/lib/prompts';
+import { searchVenuesOverpass, type OverpassVenue } from '@/lib/overpass';
+import { haversineDistance, initialBearing } from '@/lib/geo';
+import { MAX_SEARCH_RADIUS_M } from '@/lib/locale';
+import type { SearchArea } from '@/lib/nominatim';
+import { describeCategoriesForPrompt, getOSMCategory } from '@/lib/osm-categories';
+import { getOpeningStatus, formatWeeklySchedule, toWallClockDate } from '@/lib/opening-hours';
+import { parseDietaryRestrictions, getDietaryStatus, getDietaryScore } from '@/lib/dietary';
+import { classifyOwnership, getOwnershipRank } from '@/lib/ownership';
 import { getWikiDataDetails } from '@/lib/wikidata';
 import { getOpenTripMapDetails } from '@/lib/opentripmap';
 import { rateLimiter, calculateRetryAfter } from '@/lib/rate-limiter';
@@ -21,11 +34,52 @@ interface SearchVenuesRequest {
   location: {
     lat: number;
     lng: number;
+    /** Boundary from /api/geocode for neighborhood/city results */
+    area?: SearchArea;
   };
   radius: number;
   preferences: Partial<UserPreferences>;
 }
 
+/**
+ * Validates an area passed through from /api/geocode
+ */
+function isValidSearchArea(area: unknown): area is SearchArea {
+  if (!area || typeof area !== 'object') return false;
+  const a = area as SearchArea;
+  return (
+    (a.osmType === 'way' || a.osmType === 'relation') &&
+    Number.isInteger(a.osmId) && a.osmId > 0 &&
+    Array.isArray(a.boundingBox) && a.boundingBox.length === 4 &&
+    a.boundingBox.every((n) => typeof n === 'number' && isFinite(n))
+  );
+}
+
+/**
+ * Expected AI answer for search query generation: category ids from the registry
+ * Unknown ids are dropped later; a repair is only requested when none are known.
+ */
+const SEARCH_QUERIES_SCHEMA = refineSchema(
+  arraySchema(stringSchema({ minLength: 1, maxLength: 60 }), { minItems: 1, maxItems: 8 }),
+  (ids) => (ids.some((id) => getOSMCategory(id)) ? null : 'none of these are category ids from the supported list')
+);
+
+/**
+ * Categories searched when the AI can't pick any
+ */
+const FALLBACK_QUERIES = ['restaurant', 'bar', 'cafe'];
+
+/**
+ * Visit length assumed when the user picks a time but no duration
+ */
+const DEFAULT_VISIT_DURATION_MINUTES = 120;
+
+/**
+ * Accepted visit lengths in minutes (opening hours are checked every 15 minutes of the visit)
+ */
+const MIN_VISIT_DURATION_MINUTES = 15;
+const MAX_VISIT_DURATION_MINUTES = 720;
+
 /**
  * Extract client IP from Next.js API request
  */
@@ -47,49 +101,65 @@ function getClientIP(req: NextApiRequest): string {
 
 /**
  * Generates search queries using AI based on occasion and preferences
+ * @returns Category ids, and the model (null for the fallback categories) and prompt version used
  */
 async function generateSearchQueries(
   occasion: string,
-  preferences: Partial<UserPreferences>
-): Promise<string[]> {
-  // Build context about dietary restrictions and atmosphere
-  const dietaryInfo = preferences.dietaryRestrictions?.length
-    ? `Dietary needs: ${preferences.dietaryRestrictions.join(', ')}. `
-    : '';
-  const atmosphereInfo = preferences.atmosphere
-    ? `Desired atmosphere: ${preferences.atmosphere}. `
-    : '';
-  const additionalInfo = preferences.additionalPreferences
-    ? `Additional preferences: ${preferences.additionalPreferences}. `
-    : '';
-
-  const prompt = `You are a venue search expert. Generate 3-5 specific OpenStreetMap amenity search terms for finding perfect venues.
-
-OCCASION: ${occasion}
-BUDGET: ${preferences.budget || 'any'}
-GROUP SIZE: ${preferences.groupSize || 'not specified'}
-${dietaryInfo}${atmosphereInfo}${additionalInfo}
-
-IMPORTANT: Return search terms that match OpenStreetMap amenity types. Examples:
-- For romantic dates: ["fine_dining", "wine_bar", "french_restaurant"]
-- For team outings: ["pub", "brewery", "bbq_restaurant"]
-- For casual hangouts: ["cafe", "pizza_restaurant", "ice_cream"]
-- For upscale events: ["fine_dining", "cocktail_bar", "steakhouse"]
-
-Return ONLY a valid JSON array of 3-5 specific venue type strings that would be found in OpenStreetMap.
-Format: ["venue_type_1", "venue_type_2", "venue_type_3"]`;
+  preferences: Partial<UserPreferences>,
+  aiContext: AICallContext
+): Promise<{ queries: string[]; ai: AIResponseMeta }> {
+  // Everything the user typed is untrusted: sanitize it and keep it inside one block
+  const dietaryNeeds = (Array.isArray(preferences.dietaryRestrictions) ? preferences.dietaryRestrictions : [])
+    .slice(0, 10)
+    .map((d) => sanitizeForPrompt(d, 40))
+    .filter(Boolean);
+  const userRequest = [
+    `Occasion: ${sanitizeForPrompt(occasion, 100)}`,
+    `Budget: ${sanitizeForPrompt(preferences.budget, 10) || 'any'}`,
+    `Group size: ${Number(preferences.groupSize) || 'not specified'}`,
+    dietaryNeeds.length > 0 && `Dietary needs: ${dietaryNeeds.join(', ')}`,
+    preferences.atmosphere && `Desired atmosphere: ${sanitizeForPrompt(preferences.atmosphere, 100)}`,
+    preferences.additionalPreferences && `Additional preferences: ${sanitizeForPrompt(preferences.additionalPreferences, 300)}`,
+  ].filter(Boolean).join('\n');
 
+  const { text: prompt, version: promptVersion } = renderPrompt(
+    'search_queries',
+    { userRequest, categories: describeCategoriesForPrompt() },
+    aiContext.sessionId ?? aiContext.clientId
+  );
+
+  let queries: unknown[];
+  let model: string | null = null;
   try {
-    const queries = await callOpenRouterJSON<string[]>(prompt);
-    if (Array.isArray(queries) && queries.length > 0) {
-      return queries.slice(0, 5);
-    }
-    console.warn('AI returned invalid search queries, using fallback');
-    return ['restaurant', 'bar', 'cafe'];
+    ({ data: queries, model } = await callLLMJSON(
+      prompt,
+      SEARCH_QUERIES_SCHEMA,
+      'query_generation',
+      { ...aiContext, promptVersion }
+    ));
   } catch (e) {
-    console.error('Failed to generate search queries:', e);
-    return ['restaurant', 'bar', 'cafe'];
+    if (!(e instanceof LLMOutputError)) {
+      console.error('Failed to generate search queries:', e);
+      return { queries: FALLBACK_QUERIES, ai: { model: null, promptVersion } };
+    }
+    // Still malformed after the repair: salvage any known ids (e.g. from an over-long list)
+    console.warn('AI returned invalid search queries:', e.issues.slice(0, 5));
+    queries = Array.isArray(e.value) ? e.value : [];
   }
+
+  // Keep only terms that exist in the category registry
+  const knownQueries = Array.from(new Set(
+    queries
+      .filter((q): q is string => typeof q === 'string')
+      .map((q) => getOSMCategory(q)?.id)
+      .filter((id): id is string => !!id)
+  ));
+
+  if (knownQueries.length > 0) {
+    return { queries: knownQueries.slice(0, 5), ai: { model, promptVersion } };
+  }
+  console.warn('AI returned no known search categories, using fallback');
+  return { queries: FALLBACK_QUERIES, ai: { model: null, promptVersion } };
 }
 
 export default async function handler(
@@ -121,6 +191,25 @@ export default async function handler(
   res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
   res.setHeader('X-RateLimit-Reset', new Date(rateLimitResult.resetTime).toISOString());
 
+  // Daily AI token budget per client (IP or registered API key)
+  const aiContext: AICallContext = {
+    route: 'search-venues',
+    clientId: getAIClientId(ip, req.headers['x-api-key']),
+    sessionId: getPromptSessionId(req.headers['x-session-id'], ip),
+  };
+  const budgetResult = checkAIBudget(aiContext.clientId);
+
+  if (!budgetResult.allowed) {
+    const retryAfter = calculateRetryAfter(budgetResult);
+    res.setHeader('Retry-After', retryAfter.toString());
+
+    return res.status(429).json({
+      error: 'Daily AI usage limit reached. Please try again tomorrow.',
+      code: 'AI_BUDGET_EXCEEDED',
+      retryAfter,
+    });
+  }
+
   try {
     const { occasion, location, radius, preferences } = req.body as SearchVenuesRequest;
 
@@ -128,31 +217,101 @@ export default async function handler(
       return res.status(400).json({ error: 'Invalid location' });
     }
 
+    if (typeof radius !== 'number' || !Number.isFinite(radius) || radius <= 0) {
+      return res.status(400).json({ error: 'Radius must be a positive number of meters', code: 'INVALID_RADIUS' });
+    }
+    // Never search further than the form allows
+    const searchRadius = Math.min(radius, MAX_SEARCH_RADIUS_M);
+
+    // Planned visit time (optional) - used to drop venues that are closed then
+    let plannedStart: Date | null = null;
+    if (preferences?.plannedDate || preferences?.plannedTime) {
+      plannedStart = toWallClockDate(preferences.plannedDate || '', preferences.plannedTime || '');
+      if (!plannedStart) {
+        return res.status(400).json({ error: 'Invalid planned date or time', code: 'INVALID_PLANNED_TIME' });
+      }
+    }
+    const durationMinutes = preferences?.durationMinutes ?? DEFAULT_VISIT_DURATION_MINUTES;
+    if (
+      !Number.isInteger(durationMinutes) ||
+      durationMinutes < MIN_VISIT_DURATION_MINUTES ||
+      durationMinutes > MAX_VISIT_DURATION_MINUTES
+    ) {
+      return res.status(400).json({
+        error: `Duration must be a whole number of minutes between ${MIN_VISIT_DURATION_MINUTES} and ${MAX_VISIT_DURATION_MINUTES}`,
+        code: 'INVALID_DURATION',
+      });
+    }
+
+    const dietaryRestrictions = preferences?.dietaryRestrictions;
+    if (
+      dietaryRestrictions !== undefined &&
+      (!Array.isArray(dietaryRestrictions) || !dietaryRestrictions.every((d) => typeof d === 'string'))
+    ) {
+      return res.status(400).json({
+        error: 'Dietary restrictions must be an array of strings',
+        code: 'INVALID_DIETARY_RESTRICTIONS',
+      });
+    }
+
     // 1. Generate Search Queries
-    const queries = await generateSearchQueries(occasion, preferences);
+    const { queries, ai } = await generateSearchQueries(occasion, preferences, aiContext);
+
+    // 2. Search Overpass (OSM) with a single union query for all terms
+    // (large radii are split into tiles, each one combined query)
+    // Restrict to the neighborhood/city boundary when geocoding returned one
+    const area = isValidSearchArea(location.area) ? location.area : undefined;
+    const searchResult = await searchVenuesOverpass(queries, location.lat, location.lng, searchRadius, area);
 
-    // 2. Search Overpass (OSM) sequentially to avoid overwhelming the API
-    // Running in parallel can cause 504 timeouts
-    const results: (Partial<Venue> & { wikidata?: string })[][] = [];
+    // Venues come back deduplicated and ranked; remember which search terms found each one
+    const matchedQueries = new Map<string, string[]>();
     for (const query of queries) {
-      const venueResults = await searchVenuesOverpass(query, location.lat, location.lng, radius);
-      results.push(venueResults);
-      // Small delay between queries to be respectful to the free API
-      if (queries.indexOf(query) < queries.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+      for (const v of searchResult.venuesByQuery[query] || []) {
+        matchedQueries.set(v.placeId!, [...(matchedQueries.get(v.placeId!) || []), query]);
       }
     }
-    
-    // Flatten and deduplicate
-    const rawVenuesMap = new Map<string, Partial<Venue> & { wikidata?: string }>();
-    results.flat().forEach(v => {
-      if (v.placeId && !rawVenuesMap.has(v.placeId)) {
-        rawVenuesMap.set(v.placeId, v);
+
+    let venues: OverpassVenue[] = searchResult.venues.map(v => ({
+      ...v,
+      matchedQueries: matchedQueries.get(v.placeId!) || [],
+    }));
+
+    // Evaluate opening hours at the planned time and drop venues that are closed
+    const openingStatuses = new Map<string, OpeningStatus>();
+    if (plannedStart) {
+      for (const v of venues) {
+        openingStatuses.set(
+          v.placeId!,
+          getOpeningStatus(v.attributes?.openingHours, plannedStart, durationMinutes)
+        );
       }
-    });
-    
-    let venues = Array.from(rawVenuesMap.values());
-    
+      venues = venues.filter(v => openingStatuses.get(v.placeId!) !== 'closed');
+    }
+
+    // Classify chains vs independents from brand tags; when the user prefers
+    // independents, move them ahead (dietary matches still take priority below)
+    const ownerships = new Map<string, VenueOwnership>(
+      venues.map(v => [v.placeId!, classifyOwnership(v.name || '', v.attributes)])
+    );
+    if (preferences?.preferIndependent) {
+      const rank = (v: Partial<Venue>) => getOwnershipRank(ownerships.get(v.placeId!));
+      venues = [...venues].sort((a, b) => rank(a) - rank(b));
+    }
+
+    // Check dietary support from diet:* tags: drop venues tagged "no",
+    // and move venues with confirmed options to the front
+    const restrictions = parseDietaryRestrictions(dietaryRestrictions);
+    const dietaryStatuses = new Map<string, Partial<Record<DietaryRestriction, DietStatus>>>();
+    if (restrictions.length > 0) {
+      for (const v of venues) {
+        dietaryStatuses.set(v.placeId!, getDietaryStatus(v.attributes, restrictions));
+      }
+      const dietaryScore = (v: Partial<Venue>) => getDietaryScore(dietaryStatuses.get(v.placeId!) || {});
+      venues = venues
+        .filter(v => dietaryScore(v) >= 0)
+        .sort((a, b) => dietaryScore(b) - dietaryScore(a));
+    }
+
     // Limit to top 20 for enrichment to save time/bandwidth
     venues = venues.slice(0, 20);
 
@@ -191,14 +350,22 @@ export default async function handler(
       // Final object
       return {
         placeId: v.placeId!,
+        sourceIds: v.sourceIds,
         name: v.name!,
         address: v.address!,
         location: v.location!,
+        distance: Math.round(haversineDistance(location, v.location!)),
+        bearing: Math.round(initialBearing(location, v.location!)),
+        attributes: v.attributes,
+        matchedQueries: v.matchedQueries,
         priceLevel: 2, // Unknown in OSM, default to medium
-        rating: rating || 3.5, // Fallback rating
+        rating, // 0 when OpenTripMap has no popularity data
         photos: imageUrl ? [imageUrl] : [],
         reviews: description ? [{ author: 'Wiki info', rating: 5, text: description, time: Date.now() }] : [],
-        openingHours: []
+        openingHours: formatWeeklySchedule(v.attributes?.openingHours),
+        openingStatus: openingStatuses.get(v.placeId!) || 'unknown',
+        ownership: ownerships.get(v.placeId!),
+        dietaryStatus: dietaryStatuses.get(v.placeId!)
       };
     }));
 
@@ -207,7 +374,9 @@ export default async function handler(
 
     res.status(200).json({
       venues: finalVenues,
-      searchQueries: queries
+      searchQueries: queries,
+      coverage: searchResult.coverage,
+      ai
     });
 
   } catch (error) {
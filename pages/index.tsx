@@ -6,49 +6,86 @@ import MapView from '@/components/MapView';
 import ExportButtons from '@/components/ExportButtons';
 import CreditsModal from '@/components/CreditsModal';
 import BackgroundMusic from '@/components/BackgroundMusic';
+import LocationPicker from '@/components/LocationPicker';
 import type { UserPreferences } from '@/types/user-preferences';
-import type { Venue, RecommendedVenue, RecommendationResponse, VenueSearchResponse } from '@/types/venue';
+import type { Venue, RecommendedVenue, RecommendationResponse, VenueSearchResponse, SearchCoverage } from '@/types/venue';
+import type { GeocodedLocation, LocationSuggestion } from '@/lib/nominatim';
+import { formatDistance } from '@/lib/geo';
+import { getBrowserSessionId } from '@/lib/utils';
 import axios from 'axios';
 
 export default function Home() {
   // State
   const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
   const [venues, setVenues] = useState<Venue[] | null>(null);
+  const [coverage, setCoverage] = useState<SearchCoverage | null>(null);
+  // Set when geocoding fell back to the offline gazetteer (city/postcode centroid)
+  const [approximateLocation, setApproximateLocation] = useState<string | null>(null);
   const [recommendations, setRecommendations] = useState<RecommendedVenue[] | null>(null);
   const [isFormCollapsed, setIsFormCollapsed] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState<string>('');
+  // Set while the user picks between several places matching their location
+  const [locationChoices, setLocationChoices] = useState<LocationSuggestion[] | null>(null);
 
   /**
-   * Main handler for form submission
+   * Runs the planning flow: geocode, search venues, get recommendations
+   *
+   * @param prefs - Preferences from the form
+   * @param resolvedLocation - Already-known location (a picked disambiguation candidate), skips geocoding
    */
-  const handleFormSubmit = async (prefs: UserPreferences) => {
+  const runPlanning = async (prefs: UserPreferences, resolvedLocation?: GeocodedLocation) => {
     setLoading(true);
     setError(null);
+    setLocationChoices(null);
     setUserPreferences(prefs);
     setVenues(null);
+    setCoverage(null);
+    setApproximateLocation(null);
     setRecommendations(null);
 
     try {
-      // Step 1: Geocode Location
+      // Step 1: Geocode Location (skipped when the browser or a picked candidate already gave us coordinates)
       setCurrentStep('Locating...');
-      const geocodeRes = await axios.post('/api/geocode', {
-        location: prefs.location,
-      });
-      const { lat, lng } = geocodeRes.data;
+      let location: Pick<GeocodedLocation, 'lat' | 'lng' | 'area'>;
+      if (resolvedLocation) {
+        location = resolvedLocation;
+      } else if (prefs.coordinates) {
+        location = prefs.coordinates;
+      } else {
+        const geocodeRes = await axios.post('/api/geocode', {
+          location: prefs.location,
+          language: prefs.locale?.language,
+          countryCode: prefs.locale?.countryCode,
+        });
+
+        // Several places match ("Springfield"): let the user choose before searching
+        if (geocodeRes.data.ambiguous && geocodeRes.data.candidates?.length > 1) {
+          setLocationChoices(geocodeRes.data.candidates);
+          return;
+        }
+        location = geocodeRes.data;
+        if (geocodeRes.data.approximate) setApproximateLocation(geocodeRes.data.displayName);
+      }
+      const { lat, lng, area } = location;
+
+      // Keeps this tab on the same AI prompt versions across searches
+      const sessionId = getBrowserSessionId();
+      const aiHeaders = sessionId ? { 'X-Session-Id': sessionId } : {};
 
       // Step 2: Search Venues
       setCurrentStep('Searching venues...');
       const searchRes = await axios.post<VenueSearchResponse>('/api/search-venues', {
         occasion: prefs.occasion,
-        location: { lat, lng },
+        location: { lat, lng, area },
         radius: prefs.radius,
         preferences: prefs,
-      });
+      }, { headers: aiHeaders });
 
       const foundVenues = searchRes.data.venues;
       setVenues(foundVenues);
+      setCoverage(searchRes.data.coverage);
 
       if (foundVenues.length === 0) {
         setError('No venues found. Try increasing the search radius or choosing a different location.');
@@ -62,7 +99,7 @@ export default function Home() {
       const recRes = await axios.post<RecommendationResponse>('/api/recommendations', {
         venues: foundVenues,
         preferences: prefs,
-      });
+      }, { headers: aiHeaders });
 
       setRecommendations(recRes.data.recommendations);
       setIsFormCollapsed(true);
@@ -87,11 +124,27 @@ export default function Home() {
     }
   };
 
+  /**
+   * Main handler for form submission
+   */
+  const handleFormSubmit = (prefs: UserPreferences) => runPlanning(prefs);
+
+  /**
+   * Continues the search with the place the user picked
+   */
+  const handleLocationChoice = (candidate: LocationSuggestion) => {
+    if (!userPreferences) return;
+    runPlanning({ ...userPreferences, location: candidate.displayName }, candidate);
+  };
+
   const handleReset = () => {
     setUserPreferences(null);
     setVenues(null);
+    setCoverage(null);
+    setApproximateLocation(null);
     setRecommendations(null);
     setError(null);
+    setLocationChoices(null);
     setIsFormCollapsed(false);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -202,6 +255,16 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Location Disambiguation */}
+              {locationChoices && userPreferences && (
+                <LocationPicker
+                  query={userPreferences.location}
+                  candidates={locationChoices}
+                  onSelect={handleLocationChoice}
+                  onCancel={() => setLocationChoices(null)}
+                />
+              )}
+
               {/* Error Display */}
               {error && (
                 <div className="mx-6 mb-6 p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-xl border border-red-200 dark:border-red-800">
@@ -251,6 +314,26 @@ export default function Home() {
                         <p className="text-sm text-stone-500 dark:text-stone-400">
                           {recommendations.length} perfect {recommendations.length === 1 ? 'spot' : 'spots'} for your {userPreferences.occasion.toLowerCase()}
                         </p>
+                        {/* Coverage notice when the search covered less than requested */}
+                        {coverage && coverage.effectiveRadius < coverage.requestedRadius * 0.95 && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                            {coverage.mode === 'area'
+                              ? `Searched within the ${userPreferences.location} boundary (up to ${formatDistance(coverage.effectiveRadius, userPreferences.locale?.units)} from its center).`
+                              : `Searched within ${formatDistance(coverage.effectiveRadius, userPreferences.locale?.units)}, not the full ${formatDistance(coverage.requestedRadius, userPreferences.locale?.units)} requested.`}
+                          </p>
+                        )}
+                        {/* Partial coverage notice when some tile queries failed */}
+                        {coverage?.partial && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                            Part of the search area couldn&apos;t be searched (map data service unavailable), so some venues may be missing.
+                          </p>
+                        )}
+                        {/* Approximate location notice when the geocoder was unavailable */}
+                        {approximateLocation && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                            Location approximated as the center of {approximateLocation} (geocoding service unavailable).
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex gap-3 w-full sm:w-auto">
@@ -284,7 +367,7 @@ export default function Home() {
                 {/* Venue Cards */}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   {recommendations.map((venue, index) => (
-                    <VenueCard key={venue.placeId} venue={venue} index={index} />
+                    <VenueCard key={venue.placeId} venue={venue} index={index} units={userPreferences.locale?.units} />
                   ))}
                 </div>
               </div>
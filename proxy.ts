@@ -6,16 +6,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { rateLimiter, getClientIP, calculateRetryAfter } from './lib/rate-limiter';
 
+/**
+ * Typeahead requests fire while the user types, so they get their own
+ * global bucket and can't use up the limit the search itself needs
+ */
+const SUGGEST_PATH = '/api/geocode/suggest';
+
 /**
  * Proxy function that runs on Edge before API routes
  * Implements global rate limiting: 30 requests per minute per IP
+ * (location suggestions are counted separately)
  */
 export function proxy(request: NextRequest) {
   // Extract client IP
   const ip = getClientIP(request);
 
-  // Global rate limit: 30 requests per minute per IP across all routes
-  const result = rateLimiter.check(`global:${ip}`, 30, 60000);
+  // Global rate limit: 30 requests per minute per IP across all routes except suggestions
+  const bucket = request.nextUrl.pathname === SUGGEST_PATH ? 'global-suggest' : 'global';
+  const result = rateLimiter.check(`${bucket}:${ip}`, 30, 60000);
 
   if (!result.allowed) {
     const retryAfter = calculateRetryAfter(result);
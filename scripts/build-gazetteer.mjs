@@ -0,0 +1,126 @@
+/**
+ * Builds data/gazetteer.json for the offline geocoding fallback (lib/gazetteer.ts)
+ *
+ * Downloads from GeoNames (CC BY 4.0, https://www.geonames.org):
+ * - cities15000: every city with a population over 15,000
+ * - admin1CodesASCII + countryInfo: region and country names
+ * - postal codes for GAZETTEER_POSTAL_COUNTRIES (comma-separated, default "US")
+ *
+ * Usage:
+ *   node scripts/build-gazetteer.mjs           # skip if data/gazetteer.json exists
+ *   node scripts/build-gazetteer.mjs --force   # rebuild
+ *
+ * Download failures only print a warning (the app falls back to
+ * data/gazetteer-seed.json), so offline builds still succeed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+const GEONAMES_DUMP = 'https://download.geonames.org/export/dump';
+const GEONAMES_POSTAL = 'https://download.geonames.org/export/zip';
+const OUTPUT = path.join(process.cwd(), 'data', 'gazetteer.json');
+
+/**
+ * Downloads a URL into a Buffer
+ */
+async function download(url) {
+  console.log(`[GAZETTEER] Downloading ${url}`);
+  const response = await fetch(url, { headers: { 'User-Agent': 'VenueVibe/1.0 (https://venuevibe.app)' } });
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Extracts one file from a zip archive (stored or deflated entries)
+ * Reads the central directory, so entries with data descriptors work too.
+ */
+function unzipEntry(zip, fileName) {
+  const eocd = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeader = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (name === fileName) {
+      const dataStart =
+        localHeader + 30 + zip.readUInt16LE(localHeader + 26) + zip.readUInt16LE(localHeader + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+      return method === 0 ? data.toString('utf8') : zlib.inflateRawSync(data).toString('utf8');
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new Error(`${fileName} not found in archive`);
+}
+
+/**
+ * Splits a GeoNames TSV file into rows, skipping comments and blank lines
+ */
+function parseTsv(text) {
+  return text
+    .split('\n')
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => line.split('\t'));
+}
+
+const round = (n) => Math.round(Number(n) * 1e4) / 1e4;
+
+async function build() {
+  const postalCountries = (process.env.GAZETTEER_POSTAL_COUNTRIES || 'US')
+    .split(',')
+    .map((c) => c.trim().toUpperCase())
+    .filter(Boolean);
+
+  const countries = Object.fromEntries(
+    parseTsv((await download(`${GEONAMES_DUMP}/countryInfo.txt`)).toString('utf8')).map((row) => [row[0], row[4]])
+  );
+  const admin1Names = new Map(
+    parseTsv((await download(`${GEONAMES_DUMP}/admin1CodesASCII.txt`)).toString('utf8')).map((row) => [row[0], row[1]])
+  );
+
+  // Columns: geonameid, name, asciiname, alternatenames, lat, lng, class, code, country, cc2, admin1, ..., population
+  const cities = parseTsv(unzipEntry(await download(`${GEONAMES_DUMP}/cities15000.zip`), 'cities15000.txt')).map(
+    (row) => [row[1], row[2], row[8], row[10], admin1Names.get(`${row[8]}.${row[10]}`) || '', round(row[4]), round(row[5]), Number(row[14]) || 0]
+  );
+
+  // Columns: country, postal code, place, admin1 name, admin1 code, ..., lat, lng, accuracy
+  const postcodes = [];
+  for (const country of postalCountries) {
+    const rows = parseTsv(unzipEntry(await download(`${GEONAMES_POSTAL}/${country}.zip`), `${country}.txt`));
+    for (const row of rows) {
+      postcodes.push([row[1], row[0], row[2], row[4], row[3], round(row[9]), round(row[10])]);
+    }
+  }
+
+  fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+  fs.writeFileSync(
+    OUTPUT,
+    JSON.stringify({
+      source: `GeoNames (CC BY 4.0, https://www.geonames.org), built ${new Date().toISOString().slice(0, 10)}`,
+      countries,
+      cities,
+      postcodes,
+    })
+  );
+  console.log(`[GAZETTEER] Wrote ${cities.length} cities and ${postcodes.length} postcodes to ${OUTPUT}`);
+}
+
+if (fs.existsSync(OUTPUT) && !process.argv.includes('--force')) {
+  console.log('[GAZETTEER] data/gazetteer.json exists, skipping (use --force to rebuild)');
+} else {
+  build().catch((error) => {
+    console.warn(`[GAZETTEER] Build failed, the bundled seed will be used instead: ${error.message}`);
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * AI Type Definitions
+ * Defines interfaces shared by the AI client and the routes that use it
+ */
+
+/**
+ * What an AI call is for; each task has its own model chain
+ */
+export type AITask = 'query_generation' | 'ranking' | 'refinement';
+
+/**
+ * Ordered models to try for a task (primary first)
+ */
+export interface ModelChain {
+  task: AITask;
+  models: string[];
+}
+
+/**
+ * A model answer, with the model that actually produced it
+ */
+export interface AICompletion<T = string> {
+  data: T;
+  model: string;
+}
+
+/**
+ * AI details included in API responses
+ */
+export interface AIResponseMeta {
+  /** Model that answered, or null when a non-AI fallback was used */
+  model: string | null;
+  /** Prompt version assigned to the session, e.g. "recommendations@v1" (set even when the fallback was used) */
+  promptVersion: string;
+  /**
+   * Share of the AI's picks (0-1) that the rule-based ranking also puts in its top 5
+   * Only set for AI rankings; a baseline to compare models and prompts against
+   */
+  baselineAgreement?: number;
+}
+
+/**
+ * A chat message sent to a model
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Token counts reported by a provider
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * A provider's answer to one chat request
+ */
+export interface LLMProviderResponse {
+  content: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * A chat completion backend (OpenRouter, a local OpenAI-compatible server, the offline fake)
+ * Implementations throw LLMRequestError on failure, with `emptyResponse` set when the
+ * model answered with no content.
+ */
+export interface LLMProvider {
+  /** Provider name, used in logs and error messages */
+  readonly name: string;
+  /** Model used when AI_MODEL is not set */
+  readonly defaultModel: string;
+  complete(messages: LLMMessage[], model: string): Promise<LLMProviderResponse>;
+}
+
+/**
+ * Who an AI call is made for; used for usage accounting and daily token budgets
+ */
+export interface AICallContext {
+  /** API route that made the call, e.g. "search-venues" */
+  route: string;
+  /** Client the tokens are charged to, e.g. "ip:203.0.113.7" or "key:partner-a" */
+  clientId: string;
+  /** A/B bucketing key for prompt versions (see getPromptSessionId in lib/prompts.ts) */
+  sessionId?: string;
+  /** Prompt version the call uses, e.g. "search_queries@v1" */
+  promptVersion?: string;
+}
+
+/**
+ * One model request, as recorded for usage accounting
+ */
+export interface LLMCallRecord {
+  timestamp: number;
+  route: string;
+  clientId: string;
+  task: AITask;
+  model: string;
+  promptVersion?: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** True when the provider didn't report usage and the counts were estimated from text length */
+  estimated: boolean;
+  latencyMs: number;
+  /** False when the request failed (failed requests count no tokens) */
+  success: boolean;
+}
+
+/**
+ * Aggregated usage for a route, client or model
+ */
+export interface LLMUsageTotals {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  averageLatencyMs: number;
+}
+
+/**
+ * How often AI picks overlapped the rule-based top 5, averaged over requests
+ */
+export interface BaselineAgreementTotals {
+  samples: number;
+  /** Mean share of AI picks that were also in the rule-based top 5 (0-1) */
+  averageAgreement: number;
+}
+
+/**
+ * AI usage for the current day (UTC), reported by /api/internal/ai-usage
+ */
+export interface LLMUsageStats {
+  /** Day the totals cover, e.g. "2025-06-01" */
+  day: string;
+  total: LLMUsageTotals;
+  byRoute: Record<string, LLMUsageTotals>;
+  byClient: Record<string, LLMUsageTotals & { budgetRemaining: number | null }>;
+  byModel: Record<string, LLMUsageTotals>;
+  /** Per prompt version, e.g. "recommendations@v2", to compare A/B variants */
+  byPrompt: Record<string, LLMUsageTotals>;
+  /** Agreement with the rule-based ranking per prompt version and model, e.g. "recommendations@v2 google/gemini-2.5-flash" */
+  baselineAgreement: Record<string, BaselineAgreementTotals>;
+  /** Daily token budget per client, or null when unlimited */
+  dailyTokenBudget: number | null;
+  /** Most recent calls, newest first */
+  recentCalls: LLMCallRecord[];
+}
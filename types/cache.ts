@@ -22,3 +22,12 @@ export interface CacheStats {
   size: number;
   hitRate: number;
 }
+
+/**
+ * AI response cache statistics
+ * Hits and misses count only cacheable tasks; calls for non-deterministic tasks are counted as bypassed.
+ */
+export interface LLMCacheStats extends CacheStats {
+  bypassed: number;
+  byTask: Record<string, { hits: number; misses: number; bypassed: number; hitRate: number }>;
+}
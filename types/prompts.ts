@@ -0,0 +1,49 @@
+/**
+ * Prompt Type Definitions
+ * Defines the versioned prompt templates in lib/prompts.ts and the variables each one takes
+ */
+
+/**
+ * Variables each prompt takes, keyed by prompt name
+ * Values must already be sanitized (see lib/prompt-safety.ts); templates only place them.
+ */
+export interface PromptVariables {
+  search_queries: {
+    /** The user's occasion and preferences, one "Label: value" per line */
+    userRequest: string;
+    /** Supported category ids with descriptions (describeCategoriesForPrompt) */
+    categories: string;
+  };
+  recommendations: {
+    /** The user's occasion and preferences, one "Label: value" per line */
+    userContext: string;
+    /** Venue list as JSON; each venue has the short "id" the model answers with */
+    venueData: string;
+  };
+}
+
+/**
+ * Registered prompt names
+ */
+export type PromptName = keyof PromptVariables;
+
+/**
+ * One version of a prompt
+ */
+export interface PromptTemplate<N extends PromptName = PromptName> {
+  name: N;
+  /** Version label, e.g. "v2"; never change a released version's text, add a new version instead */
+  version: string;
+  /** Relative share of sessions that get this version (0 retires it) */
+  weight: number;
+  render(variables: PromptVariables[N]): string;
+}
+
+/**
+ * A rendered prompt
+ */
+export interface RenderedPrompt {
+  text: string;
+  /** Name and version that produced it, e.g. "search_queries@v1" */
+  version: string;
+}
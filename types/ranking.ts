@@ -0,0 +1,35 @@
+/**
+ * Ranking Type Definitions
+ * Defines interfaces for the deterministic rule-based venue scorer
+ */
+
+import type { Venue } from '@/types/venue';
+
+/**
+ * Signals the rule-based scorer combines
+ */
+export type RankingFactor =
+  | 'occasion'      // Venue category vs the occasion
+  | 'distance'      // Straight-line distance from the search center
+  | 'budget'        // Price tier implied by the category vs the budget
+  | 'dietary'       // diet:* tags vs the user's restrictions
+  | 'openingHours'  // Open for the planned visit
+  | 'completeness'  // How much OpenStreetMap knows about the venue
+  | 'ownership';    // Chain penalty when the user prefers independents
+
+/**
+ * A venue scored by the rule-based engine
+ */
+export interface RankedVenue {
+  venue: Venue;
+  /** Overall score, 0-100 */
+  score: number;
+  /** Points earned per factor (ownership is 0 or negative) */
+  breakdown: Record<RankingFactor, number>;
+  /** Template-generated advantages, strongest first (at most 4) */
+  pros: string[];
+  /** Template-generated drawbacks (at most 2) */
+  cons: string[];
+  /** One or two sentences explaining the score */
+  reasoning: string;
+}
@@ -28,3 +28,11 @@ export interface RateLimitConfig {
   limit: number;        // Maximum requests allowed
   windowMs: number;     // Time window in milliseconds
 }
+
+/**
+ * Daily quota entry (e.g. AI tokens used today)
+ */
+export interface QuotaEntry {
+  day: string;          // UTC day the usage belongs to, e.g. "2025-06-01"
+  used: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * Request Scheduler Type Definitions
+ * Defines interfaces for the per-provider upstream request scheduler
+ */
+
+/**
+ * Scheduler configuration for one upstream provider
+ */
+export interface RequestSchedulerConfig {
+  name: string;           // Provider name, used in logs and errors (e.g. "nominatim")
+  minIntervalMs: number;  // Minimum time between the starts of two requests
+  maxQueueDepth: number;  // Waiting requests allowed before new ones are rejected
+  taskTimeoutMs: number;  // Time limit for one request (including its retries) before the queue moves on
+}
+
+/**
+ * Scheduler statistics (for monitoring)
+ */
+export interface RequestSchedulerStats {
+  queued: number;     // Requests waiting for their turn
+  running: boolean;   // Whether a request is in progress
+  completed: number;  // Requests that reached upstream (success or failure)
+  coalesced: number;  // Calls that shared an identical in-flight request
+  rejected: number;   // Calls refused because the queue was full
+  timedOut: number;   // Requests abandoned after taskTimeoutMs
+}
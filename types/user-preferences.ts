@@ -1,3 +1,38 @@
+/**
+ * Dietary restrictions that can be checked against OSM diet:* tags
+ * Other free-text restrictions are passed to the AI as-is
+ */
+export type DietaryRestriction = 'vegan' | 'vegetarian' | 'gluten_free' | 'halal' | 'kosher';
+
+/**
+ * Unit system for radius input and distance display
+ */
+export type DistanceUnits = 'imperial' | 'metric';
+
+/**
+ * Language, country and unit settings
+ * Used for geocoding (Nominatim accept-language/countrycodes), display names,
+ * radius input, distance display and price labels
+ */
+export interface LocaleSettings {
+  /**
+   * Preferred language for place names (BCP 47)
+   * @example "en", "fr", "pt-BR"
+   */
+  language: string;
+
+  /**
+   * Country to bias geocoding towards, and whose currency symbol prices use (ISO 3166-1 alpha-2)
+   * @example "US", "GB", "FR"
+   */
+  countryCode?: string;
+
+  /**
+   * Miles/feet ('imperial') or kilometers/meters ('metric')
+   */
+  units: DistanceUnits;
+}
+
 /**
  * User preferences for event planning and venue search
  * Captured from the planning form and used to generate personalized recommendations
@@ -15,12 +50,27 @@ export interface UserPreferences {
    */
   location: string;
 
+  /**
+   * Exact coordinates of the starting location (optional)
+   * Set when the user picks "Use my current location"; the location string is then
+   * only a readable label and is not geocoded again
+   */
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+
   /**
    * Search radius in meters from the starting location
    * @example 5000 (approximately 3 miles)
    */
   radius: number;
 
+  /**
+   * Language, country and unit settings (optional, defaults to English and imperial units)
+   */
+  locale?: LocaleSettings;
+
   /**
    * Budget preference level
    * - 'low': $ (budget-friendly)
@@ -30,12 +80,39 @@ export interface UserPreferences {
    */
   budget: 'low' | 'medium' | 'high' | 'any';
 
+  /**
+   * Planned date of the outing in the venue's local time (optional)
+   * Format: YYYY-MM-DD
+   * @example "2026-02-14"
+   */
+  plannedDate?: string;
+
+  /**
+   * Planned start time in the venue's local time (optional, requires plannedDate)
+   * Format: HH:MM (24-hour)
+   * @example "19:30"
+   */
+  plannedTime?: string;
+
+  /**
+   * Planned length of the outing in minutes (optional)
+   * Venues that close before the outing ends are flagged
+   * @example 120
+   */
+  durationMinutes?: number;
+
   /**
    * Dietary restrictions or preferences (optional)
    * @example ["vegetarian", "gluten-free", "vegan"]
    */
   dietaryRestrictions?: string[];
 
+  /**
+   * Rank independent, locally run venues above chains (optional)
+   * Chains are still shown, just lower down
+   */
+  preferIndependent?: boolean;
+
   /**
    * Desired atmosphere or vibe (optional)
    * @example "romantic", "casual", "upscale", "lively", "quiet"
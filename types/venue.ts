@@ -1,3 +1,6 @@
+import type { DietaryRestriction } from '@/types/user-preferences';
+import type { AIResponseMeta } from '@/types/ai';
+
 /**
  * Represents a customer review for a venue from Google Places
  */
@@ -12,6 +15,71 @@ export interface Review {
   time: number;
 }
 
+/**
+ * Structured venue attributes extracted from OpenStreetMap tags
+ * Every field is optional: OSM coverage varies a lot between venues
+ */
+export interface VenueAttributes {
+  /** Cuisines served (OSM `cuisine`, split on ";") */
+  cuisine?: string[];
+  /** Official website URL (OSM `website` or `contact:website`) */
+  website?: string;
+  /** Contact phone number (OSM `phone` or `contact:phone`) */
+  phone?: string;
+  /** Raw OSM `opening_hours` value, e.g. "Mo-Fr 11:00-22:00; Sa,Su 10:00-23:00" */
+  openingHours?: string;
+  /** Wheelchair accessibility */
+  wheelchair?: 'yes' | 'limited' | 'no';
+  /** Whether the venue has outdoor seating */
+  outdoorSeating?: boolean;
+  /** Reservation policy */
+  reservation?: 'yes' | 'no' | 'required' | 'recommended';
+  /** Takeaway availability ('only' means takeaway only) */
+  takeaway?: 'yes' | 'no' | 'only';
+  /** Whether the venue delivers */
+  delivery?: boolean;
+  /** Whether free or paid Wi-Fi is available */
+  internetAccess?: boolean;
+  /** Whether the venue is air-conditioned */
+  airConditioning?: boolean;
+  /** Smoking policy (OSM `smoking`, e.g. "no", "outside", "yes") */
+  smoking?: string;
+  /** Raw OSM `diet:*` tags keyed by diet name, e.g. { vegan: "yes", halal: "only" } */
+  diet?: Record<string, string>;
+  /** Chain or franchise name (OSM `brand`) */
+  brand?: string;
+  /** Wikidata ID of the brand (OSM `brand:wikidata`) */
+  brandWikidata?: string;
+  /** Company or person running the venue (OSM `operator`) */
+  operator?: string;
+}
+
+/**
+ * Whether a venue belongs to a chain, from OSM brand/operator tags
+ * - 'chain': tagged with a brand
+ * - 'independent': no brand, and no operator other than the venue itself
+ * - 'unknown': run by a differently named operator that may or may not be a chain
+ */
+export type VenueOwnership = 'chain' | 'independent' | 'unknown';
+
+/**
+ * Whether a venue is open for the user's planned visit, from OSM opening_hours
+ * - 'open': open for the whole planned duration
+ * - 'closes_early': open at the planned start but closes before the visit ends
+ * - 'closed': closed at the planned start
+ * - 'unknown': no planned time, or opening hours missing/unparseable
+ */
+export type OpeningStatus = 'open' | 'closes_early' | 'closed' | 'unknown';
+
+/**
+ * How well a venue supports a dietary restriction, from OSM diet:* tags
+ * - 'confirmed': OSM says options are available (diet:*=yes or limited)
+ * - 'only': the venue serves exclusively this diet (diet:*=only)
+ * - 'unknown': no diet:* tag for this restriction
+ * - 'no': OSM says the diet is not catered for (diet:*=no)
+ */
+export type DietStatus = 'confirmed' | 'only' | 'unknown' | 'no';
+
 /**
  * Represents a venue (restaurant, bar, etc.) with details from Google Places API
  */
@@ -28,10 +96,26 @@ export interface Venue {
   photos: string[];
   /** Customer reviews from Google Places */
   reviews: Review[];
-  /** Opening hours (array of strings like "Monday: 5:00 PM – 10:00 PM") */
+  /** Opening hours (array of strings like "Monday: 17:00–22:00") */
   openingHours?: string[];
+  /** Availability at the user's planned date and time */
+  openingStatus?: OpeningStatus;
+  /** Search terms (from searchQueries) whose results included this venue */
+  matchedQueries?: string[];
+  /** Chain vs independent classification */
+  ownership?: VenueOwnership;
+  /** Support for each of the user's recognized dietary restrictions */
+  dietaryStatus?: Partial<Record<DietaryRestriction, DietStatus>>;
   /** Unique Google Places ID for this venue */
   placeId: string;
+  /** IDs of every source record merged into this venue (e.g. an OSM node and way) */
+  sourceIds?: string[];
+  /** Straight-line distance from the search center, in meters */
+  distance?: number;
+  /** Initial bearing from the search center, in degrees clockwise from north */
+  bearing?: number;
+  /** Structured attributes from OpenStreetMap tags (cuisine, accessibility, etc.) */
+  attributes?: VenueAttributes;
   /** Geographic coordinates of the venue */
   location: {
     /** Latitude */
@@ -41,6 +125,24 @@ export interface Venue {
   };
 }
 
+/**
+ * Area actually covered by a venue search
+ * Large radii are split into tiles and capped, so the effective radius
+ * can be smaller than the requested one
+ */
+export interface SearchCoverage {
+  /** Radius requested by the client, in meters */
+  requestedRadius: number;
+  /** Radius actually searched, in meters */
+  effectiveRadius: number;
+  /** Number of Overpass queries (tiles) used */
+  tiles: number;
+  /** True when some tile queries failed, so parts of the radius weren't searched */
+  partial: boolean;
+  /** 'area' when results were restricted to a neighborhood/city boundary */
+  mode: 'radius' | 'area';
+}
+
 /**
  * Response from the /api/search-venues endpoint
  * Contains venues found and the AI-generated search queries used
@@ -50,6 +152,10 @@ export interface VenueSearchResponse {
   venues: Venue[];
   /** AI-generated search queries that were used to find these venues */
   searchQueries: string[];
+  /** What was actually searched (may be less than the requested radius) */
+  coverage: SearchCoverage;
+  /** Model that picked the search categories */
+  ai: AIResponseMeta;
 }
 
 /**
@@ -65,6 +171,8 @@ export interface RecommendedVenue extends Venue {
   pros: string[];
   /** List of potential drawbacks or considerations */
   cons: string[];
+  /** Score from the rule-based ranking (lib/ranking.ts), for comparison with matchScore */
+  baselineScore?: number;
 }
 
 /**
@@ -74,4 +182,6 @@ export interface RecommendedVenue extends Venue {
 export interface RecommendationResponse {
   /** Array of recommended venues sorted by match score (best first) */
   recommendations: RecommendedVenue[];
+  /** Model that ranked the venues */
+  ai: AIResponseMeta;
 }